@@ -41,11 +41,9 @@ export default {
         // Set env vars for the session
         await sandbox.setEnvVars({ ANTHROPIC_API_KEY });
 
-        // kick off CC with our query
-        const cmd = `cd ${name} && claude --append-system-prompt "${EXTRA_SYSTEM}" -p "${task.replaceAll(
-          '"',
-          '\\"'
-        )}" --permission-mode acceptEdits`;
+        // kick off CC with our query, passed on stdin so it is never parsed by the shell
+        await sandbox.writeFile('/tmp/task.txt', task);
+        const cmd = `cd ${name} && claude --append-system-prompt "${EXTRA_SYSTEM}" -p --permission-mode acceptEdits < /tmp/task.txt`;
 
         const logs = getOutput(await sandbox.exec(cmd));
         const diff = getOutput(await sandbox.exec('git diff'));
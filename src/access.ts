@@ -0,0 +1,128 @@
+/**
+ * Session ownership and access control
+ *
+ * Every visitor is identified either by their GitHub account or by a signed
+ * anonymous visitor cookie. Sessions are bound to that owner ID, and preview
+ * URLs are gated on a short-lived signed access token that only the owner
+ * can obtain through /session/:id/open.
+ */
+
+import { getAuthUser, parseCookies, serializeCookie, signValue, verifySignedValue } from './auth';
+import type { Env, SessionInfo } from './types';
+
+const VISITOR_COOKIE = 'cloudx_visitor';
+const PREVIEW_COOKIE = 'cloudx_preview_access';
+const PREVIEW_ACCESS_PARAM = 'cloudx_access';
+const VISITOR_TTL = 31536000;
+const PREVIEW_ACCESS_TTL = 7200;
+
+// Same shape the Sandbox SDK uses for preview hostnames: <port>-<sandboxId>-<token>.<domain>
+const PREVIEW_HOST_REGEX = /^(\d{4,5})-([^.-][^.]*?[^.-]|[^.-])-([a-z0-9_-]{16})\.(.+)$/;
+
+export interface Visitor {
+  ownerId: string;
+  // Set when a new anonymous visitor cookie has to be issued with the response
+  setCookie?: string;
+}
+
+// Resolve the current visitor, issuing an anonymous ID when requested and none exists
+export async function getVisitor(request: Request, env: Env, url: URL, issue = false): Promise<Visitor | null> {
+  const user = await getAuthUser(request, env);
+  if (user) {
+    return { ownerId: `github:${user.id}` };
+  }
+
+  const cookie = parseCookies(request)[VISITOR_COOKIE];
+  if (cookie) {
+    const visitorId = await verifySignedValue(cookie, env.SESSION_SECRET);
+    if (visitorId) {
+      return { ownerId: `anon:${visitorId}` };
+    }
+  }
+
+  if (!issue) {
+    return null;
+  }
+
+  const visitorId = crypto.randomUUID();
+  return {
+    ownerId: `anon:${visitorId}`,
+    setCookie: serializeCookie(VISITOR_COOKIE, await signValue(visitorId, env.SESSION_SECRET), url, VISITOR_TTL),
+  };
+}
+
+export function isSessionOwner(info: SessionInfo, visitor: Visitor | null): boolean {
+  return visitor !== null && info.owner === visitor.ownerId;
+}
+
+/**
+ * Whether a page on another origin sent the request with the visitor's cookies.
+ * Browsers send Origin with WebSocket upgrades and POSTs and Sec-Fetch-Site with
+ * every request; clients that send neither are not acting for a browser.
+ */
+export function isCrossOriginRequest(request: Request, url: URL): boolean {
+  const origin = request.headers.get('Origin');
+  if (origin !== null) {
+    return origin !== url.origin;
+  }
+  const site = request.headers.get('Sec-Fetch-Site');
+  return site !== null && site !== 'same-origin' && site !== 'none';
+}
+
+// Build the owner's link into a preview URL, carrying a signed access token for that sandbox
+export async function createPreviewAccessUrl(env: Env, sessionId: string, previewUrl: string): Promise<string> {
+  const expiresAt = Date.now() + PREVIEW_ACCESS_TTL * 1000;
+  const url = new URL(previewUrl);
+  url.searchParams.set(PREVIEW_ACCESS_PARAM, await signValue(`${sessionId}:${expiresAt}`, env.SESSION_SECRET));
+  return url.toString();
+}
+
+// Sandbox ID of a preview hostname, or null for any other host
+export function previewSandboxId(url: URL): string | null {
+  const match = url.hostname.match(PREVIEW_HOST_REGEX);
+  return match ? match[2].toLowerCase() : null;
+}
+
+async function verifyPreviewAccess(env: Env, token: string, sandboxId: string): Promise<boolean> {
+  const value = await verifySignedValue(token, env.SESSION_SECRET);
+  if (!value) {
+    return false;
+  }
+  const [tokenSandboxId, expiresAt] = value.split(':');
+  return tokenSandboxId === sandboxId && Number(expiresAt) > Date.now();
+}
+
+/**
+ * Check requests to sandbox preview hostnames before they reach proxyToSandbox.
+ * Returns null when the request may be proxied, or a response to send instead.
+ */
+export async function gatePreviewRequest(request: Request, env: Env, url: URL): Promise<Response | null> {
+  const sandboxId = previewSandboxId(url);
+  if (!sandboxId) {
+    return null;
+  }
+
+  // First visit from the session page: trade the query token for a host-only cookie
+  const queryToken = url.searchParams.get(PREVIEW_ACCESS_PARAM);
+  if (queryToken) {
+    if (!await verifyPreviewAccess(env, queryToken, sandboxId)) {
+      return new Response('Access denied', { status: 403 });
+    }
+    const cleanUrl = new URL(url);
+    cleanUrl.searchParams.delete(PREVIEW_ACCESS_PARAM);
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: cleanUrl.toString(),
+        'Set-Cookie': serializeCookie(PREVIEW_COOKIE, queryToken, url, PREVIEW_ACCESS_TTL),
+      },
+    });
+  }
+
+  const cookie = parseCookies(request)[PREVIEW_COOKIE];
+  if (!cookie || !await verifyPreviewAccess(env, cookie, sandboxId)) {
+    return new Response('Access denied. Open this session from its cloudx.sh session page.', { status: 403 });
+  }
+
+  return null;
+}
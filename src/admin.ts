@@ -0,0 +1,65 @@
+/**
+ * Operator access
+ *
+ * Endpoints for operators rather than visitors, such as /api/metrics and the
+ * /admin dashboard, are open to requests carrying ADMIN_TOKEN as a bearer token
+ * and to GitHub users listed in ADMIN_GITHUB_LOGINS. Browsers can also trade the
+ * token for a signed cookie at /admin/login. Everything is closed when neither
+ * is configured.
+ */
+
+import { getAuthUser, parseCookies, serializeCookie, signValue, timingSafeEqual, verifySignedValue } from './auth';
+import type { Env } from './types';
+
+const ADMIN_COOKIE = 'cloudx_admin';
+const ADMIN_COOKIE_TTL = 28800;
+
+// Cookies are signed with the token too, so rotating ADMIN_TOKEN signs every operator out
+function cookieSecret(env: Env): string | null {
+  return env.ADMIN_TOKEN && env.SESSION_SECRET ? `${env.SESSION_SECRET}:${env.ADMIN_TOKEN}` : null;
+}
+
+function adminLogins(env: Env): string[] {
+  return (env.ADMIN_GITHUB_LOGINS ?? '').split(',').map((login) => login.trim().toLowerCase()).filter(Boolean);
+}
+
+export function isValidAdminToken(env: Env, token: string): boolean {
+  return env.ADMIN_TOKEN ? timingSafeEqual(token, env.ADMIN_TOKEN) : false;
+}
+
+export async function isAdminRequest(request: Request, env: Env): Promise<boolean> {
+  const header = request.headers.get('Authorization') ?? '';
+  if (header.startsWith('Bearer ') && isValidAdminToken(env, header.slice('Bearer '.length))) {
+    return true;
+  }
+
+  // The cookie holds the time it was issued, so it cannot outlive ADMIN_COOKIE_TTL
+  const secret = cookieSecret(env);
+  const cookie = parseCookies(request)[ADMIN_COOKIE];
+  if (secret && cookie) {
+    const issuedAt = Number(await verifySignedValue(cookie, secret));
+    if (issuedAt && issuedAt + ADMIN_COOKIE_TTL * 1000 > Date.now()) {
+      return true;
+    }
+  }
+
+  const logins = adminLogins(env);
+  if (logins.length > 0) {
+    const user = await getAuthUser(request, env);
+    return Boolean(user && logins.includes(user.login.toLowerCase()));
+  }
+  return false;
+}
+
+// Set-Cookie header value for a browser that presented the admin token, or null when cookies cannot be signed
+export async function createAdminCookie(env: Env, url: URL): Promise<string | null> {
+  const secret = cookieSecret(env);
+  return secret ? serializeCookie(ADMIN_COOKIE, await signValue(String(Date.now()), secret), url, ADMIN_COOKIE_TTL) : null;
+}
+
+export function adminRequiredResponse(): Response {
+  return Response.json(
+    { error: 'Admin token required' },
+    { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="cloudx admin"' } }
+  );
+}
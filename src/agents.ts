@@ -0,0 +1,54 @@
+/**
+ * Coding agent backends
+ *
+ * Each backend knows how to configure, start and probe one coding agent inside
+ * the sandbox, and which port serves its UI. The launcher only talks to this
+ * interface, so supporting another agent means adding a backend here.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import { claudeCodeBackend } from './claude-code';
+import type { ModelInfo } from './models';
+import { openCodeBackend } from './opencode';
+import type { AgentId, ProviderId } from './types';
+
+export interface AgentConfig {
+  workDir: string;
+  model: ModelInfo;
+  // LLM proxy URL for the model's provider, and the session's proxy token the agent sends as its API key
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface AgentBackend {
+  id: AgentId;
+  // Display name for the session page, e.g. "OpenCode"
+  name: string;
+  // Port serving the agent UI, exposed as the session's preview URL
+  port: number;
+  logFile: string;
+  // Model providers the agent can talk to
+  providers: ProviderId[];
+  // Files the agent writes into the repository, left out of snapshots
+  workspaceFiles: string[];
+  writeConfig(sandbox: Sandbox, config: AgentConfig): Promise<void>;
+  start(sandbox: Sandbox, workDir: string): Promise<void>;
+  // Resolves once the UI answers; `onPoll` runs while waiting
+  waitUntilReady(sandbox: Sandbox, onPoll?: () => Promise<void>): Promise<void>;
+  // Shell command running one prompt non-interactively in the working directory, for headless
+  // tasks. The prompt is read from `promptFile` so it never becomes part of the command
+  taskCommand(promptFile: string): string;
+  // Put a file in front of the user when the launch URL pointed at one; not every agent can
+  openFile?(sandbox: Sandbox, filePath: string): Promise<void>;
+}
+
+export const AGENT_BACKENDS: Record<AgentId, AgentBackend> = {
+  opencode: openCodeBackend,
+  'claude-code': claudeCodeBackend,
+};
+
+export const DEFAULT_AGENT: AgentId = 'opencode';
+
+export function isAgentId(value: string): value is AgentId {
+  return Object.hasOwn(AGENT_BACKENDS, value);
+}
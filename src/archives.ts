@@ -0,0 +1,80 @@
+/**
+ * Archive transfer between sandboxes and R2
+ *
+ * Prebuilds and snapshots are tarballs made in the sandbox and kept in the
+ * SNAPSHOTS bucket. They are streamed out of the sandbox, and written back into
+ * it in base64 parts, so the worker never holds a whole archive in memory.
+ */
+
+import { type ExecutionSession, type Sandbox, streamFile } from '@cloudflare/sandbox';
+import type { Env } from './types';
+
+// Archives are written back into the sandbox in parts of this size, each sent as base64
+const PART_BYTES = 8 * 1024 * 1024;
+
+// Upload a file of known size from the sandbox to the bucket
+export async function uploadArchive(
+  env: Env,
+  sandbox: Sandbox,
+  path: string,
+  size: number,
+  key: string,
+  options: R2PutOptions
+): Promise<R2Object> {
+  // R2 needs the length of a streamed upload up front
+  const { readable, writable } = new FixedLengthStream(size);
+  const upload = env.SNAPSHOTS.put(key, readable, options);
+  const writer = writable.getWriter();
+  try {
+    for await (const chunk of streamFile(await sandbox.readFileStream(path))) {
+      await writer.write(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+    }
+    await writer.close();
+  } catch (e) {
+    await writer.abort(e);
+    await upload.catch(() => {});
+    throw e;
+  }
+  return (await upload)!;
+}
+
+/**
+ * Write an archive from the bucket into `partsDir` in the sandbox, as numbered
+ * parts that `cat ${partsDir}/*` puts back together. The directory is emptied first.
+ */
+export async function writeArchiveParts(
+  sandbox: Sandbox | ExecutionSession,
+  body: ReadableStream<Uint8Array>,
+  partsDir: string
+): Promise<void> {
+  await sandbox.exec(`rm -rf ${partsDir} && mkdir -p ${partsDir}`, { timeout: 10000 });
+  let part = 0;
+  let buffer = new Uint8Array(PART_BYTES);
+  let length = 0;
+  const flush = async () => {
+    let binary = '';
+    for (let i = 0; i < length; i++) {
+      binary += String.fromCharCode(buffer[i]);
+    }
+    // Zero-padded so the parts concatenate in order
+    await sandbox.writeFile(`${partsDir}/${String(part++).padStart(6, '0')}`, btoa(binary), { encoding: 'base64' });
+    buffer = new Uint8Array(PART_BYTES);
+    length = 0;
+  };
+
+  for await (const chunk of body) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      const count = Math.min(chunk.length - offset, PART_BYTES - length);
+      buffer.set(chunk.subarray(offset, offset + count), length);
+      length += count;
+      offset += count;
+      if (length === PART_BYTES) {
+        await flush();
+      }
+    }
+  }
+  if (length > 0) {
+    await flush();
+  }
+}
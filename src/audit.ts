@@ -0,0 +1,102 @@
+/**
+ * Session audit log
+ *
+ * Structured events for what happens to a session: who launched which
+ * repository, how long cloning, each setup command, agent startup and port
+ * exposure took, errors, teardown, and the commands run in the sandbox. Events
+ * are kept by the session's store, returned by /api/sessions/:id/audit and
+ * counted towards /api/metrics.
+ *
+ * Commands the agent runs through bash are logged inside the sandbox by a hook
+ * the supervisor installs, and collected from there by the cron, the audit
+ * endpoint and teardown. The agent could tamper with that log, so it shows what
+ * the agent did rather than proving it.
+ */
+
+import { getSandbox } from '@cloudflare/sandbox';
+import { getSessionRegistry } from './session-registry';
+import { getSessionStore } from './session-store';
+import { AGENT_COMMAND_LOG } from './supervisor';
+import type { AuditEntry, AuditEventType, Env } from './types';
+
+// Details such as commands are cut off at this length
+const MAX_DETAIL_LENGTH = 500;
+
+// A runaway agent could log thousands of commands between collections; only the latest are kept
+const MAX_COMMANDS_PER_COLLECTION = 200;
+
+function truncateDetail(entry: AuditEntry): AuditEntry {
+  return entry.detail && entry.detail.length > MAX_DETAIL_LENGTH
+    ? { ...entry, detail: `${entry.detail.slice(0, MAX_DETAIL_LENGTH)}...` }
+    : entry;
+}
+
+// Auditing is best effort and must never fail what is being audited
+export async function recordAudit(env: Env, sessionId: string, ...entries: AuditEntry[]): Promise<void> {
+  try {
+    await getSessionStore(env, sessionId).recordAudit(entries.map(truncateDetail));
+  } catch (e) {
+    console.error(`Failed to record audit events for session ${sessionId}:`, e);
+  }
+}
+
+// Run one phase and record how long it took and whether it succeeded, passing its result or error on
+export async function auditPhase<T>(
+  env: Env,
+  sessionId: string,
+  type: AuditEventType,
+  detail: string | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    await recordAudit(env, sessionId, { type, detail, success: true, durationMs: Date.now() - startedAt });
+    return result;
+  } catch (e) {
+    await recordAudit(env, sessionId, { type, detail, success: false, durationMs: Date.now() - startedAt });
+    throw e;
+  }
+}
+
+/**
+ * Move the agent's logged commands into the audit log. The log is renamed
+ * before it is read, so commands finishing meanwhile start a new one.
+ */
+export async function collectAgentCommands(env: Env, sessionId: string): Promise<void> {
+  const collecting = `${AGENT_COMMAND_LOG}.collecting`;
+  const result = await getSandbox(env.SANDBOX, sessionId).exec(
+    `if [ -f ${AGENT_COMMAND_LOG} ]; then mv ${AGENT_COMMAND_LOG} ${collecting} && cat ${collecting} && rm -f ${collecting}; fi`,
+    { timeout: 10000 }
+  );
+  const entries: AuditEntry[] = [];
+  for (const line of result.stdout.split('\n').filter(Boolean).slice(-MAX_COMMANDS_PER_COLLECTION)) {
+    const [startedAt, finishedAt, status, ...command] = line.split('\t');
+    if (!command.length || !Number(startedAt) || !Number(finishedAt)) {
+      continue;
+    }
+    entries.push({
+      type: 'command',
+      at: Number(startedAt),
+      durationMs: Number(finishedAt) - Number(startedAt),
+      success: status === '0',
+      detail: command.join(' '),
+    });
+  }
+  if (entries.length) {
+    await recordAudit(env, sessionId, ...entries);
+  }
+}
+
+// Run by the cron so commands are collected while the sandbox is still around to read them from
+export async function collectAllAgentCommands(env: Env): Promise<void> {
+  const registry = getSessionRegistry(env);
+  const sessions = [...await registry.listRunningSessions(), ...await registry.listRunningTasks()];
+  for (const info of sessions) {
+    try {
+      await collectAgentCommands(env, info.id);
+    } catch (e) {
+      console.error(`Failed to collect agent commands of session ${info.id}:`, e);
+    }
+  }
+}
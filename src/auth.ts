@@ -0,0 +1,230 @@
+/**
+ * GitHub OAuth sign-in
+ *
+ * Handles /auth/login, /auth/callback and /auth/logout. The user's GitHub token
+ * never leaves the worker: it is stored in KV and the browser only receives a
+ * signed cookie holding the ID of that record.
+ */
+
+import type { Env } from './types';
+
+export interface AuthUser {
+  id: number;
+  login: string;
+  token: string;
+}
+
+const SESSION_COOKIE = 'cloudx_session';
+const STATE_COOKIE = 'cloudx_oauth_state';
+const AUTH_TTL = 28800;
+const STATE_TTL = 600;
+
+// read:user to identify the user, repo to clone private repositories
+const OAUTH_SCOPES = 'read:user repo';
+
+export function githubApiUrl(env: Env): string {
+  return env.GITHUB_API_URL ?? 'https://api.github.com';
+}
+
+// GitHub's web host, used for the OAuth flow and for pushing branches over HTTPS
+export function githubWebUrl(env: Env): string {
+  return env.GITHUB_OAUTH_URL ?? 'https://github.com';
+}
+
+function isAuthConfigured(env: Env): boolean {
+  return Boolean(env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET && env.SESSION_SECRET);
+}
+
+export function parseCookies(request: Request): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (request.headers.get('Cookie') ?? '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = part.slice(index + 1).trim();
+    }
+  }
+  return cookies;
+}
+
+export function serializeCookie(name: string, value: string, url: URL, maxAge: number): string {
+  const secure = url.protocol === 'https:' ? '; Secure' : '';
+  return `${name}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure}`;
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function hmac(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value)));
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function signValue(value: string, secret: string): Promise<string> {
+  return `${value}.${await hmac(value, secret)}`;
+}
+
+export async function verifySignedValue(signed: string, secret: string): Promise<string | null> {
+  const index = signed.lastIndexOf('.');
+  if (index <= 0) {
+    return null;
+  }
+  const value = signed.slice(0, index);
+  const expected = await hmac(value, secret);
+  return timingSafeEqual(signed.slice(index + 1), expected) ? value : null;
+}
+
+// Only allow same-origin relative redirects after sign-in
+function safeRedirect(target: string | null): string {
+  if (!target || !target.startsWith('/') || target.startsWith('//') || target.startsWith('/\\')) {
+    return '/';
+  }
+  return target;
+}
+
+export function loginUrl(redirect: string): string {
+  return `/auth/login?redirect=${encodeURIComponent(redirect)}`;
+}
+
+export async function getAuthUser(request: Request, env: Env): Promise<AuthUser | null> {
+  if (!env.SESSION_SECRET) {
+    return null;
+  }
+
+  const cookie = parseCookies(request)[SESSION_COOKIE];
+  if (!cookie) {
+    return null;
+  }
+
+  const authId = await verifySignedValue(cookie, env.SESSION_SECRET);
+  if (!authId) {
+    return null;
+  }
+
+  return await env.CACHE.get(`auth:${authId}`, 'json') as AuthUser | null;
+}
+
+export async function handleAuthLogin(env: Env, url: URL): Promise<Response> {
+  if (!isAuthConfigured(env)) {
+    return new Response('GitHub sign-in is not configured', { status: 501 });
+  }
+
+  const state = crypto.randomUUID();
+  await env.CACHE.put(
+    `oauth:${state}`,
+    safeRedirect(url.searchParams.get('redirect')),
+    { expirationTtl: STATE_TTL }
+  );
+
+  const authorizeUrl = new URL('/login/oauth/authorize', githubWebUrl(env));
+  authorizeUrl.searchParams.set('client_id', env.GITHUB_CLIENT_ID!);
+  authorizeUrl.searchParams.set('redirect_uri', `${url.origin}/auth/callback`);
+  authorizeUrl.searchParams.set('scope', OAUTH_SCOPES);
+  authorizeUrl.searchParams.set('state', state);
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: authorizeUrl.toString(),
+      'Set-Cookie': serializeCookie(STATE_COOKIE, state, url, STATE_TTL),
+    },
+  });
+}
+
+export async function handleAuthCallback(request: Request, env: Env, url: URL): Promise<Response> {
+  if (!isAuthConfigured(env)) {
+    return new Response('GitHub sign-in is not configured', { status: 501 });
+  }
+
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  const cookieState = parseCookies(request)[STATE_COOKIE];
+  if (!code || !state || !cookieState || !timingSafeEqual(state, cookieState)) {
+    return new Response('Invalid OAuth state', { status: 400 });
+  }
+
+  const redirect = await env.CACHE.get(`oauth:${state}`);
+  if (redirect === null) {
+    return new Response('Sign-in request expired, please try again', { status: 400 });
+  }
+  await env.CACHE.delete(`oauth:${state}`);
+
+  const tokenResponse = await fetch(new URL('/login/oauth/access_token', githubWebUrl(env)), {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'User-Agent': 'cloudx.sh',
+    },
+    body: JSON.stringify({
+      client_id: env.GITHUB_CLIENT_ID,
+      client_secret: env.GITHUB_CLIENT_SECRET,
+      code,
+      redirect_uri: `${url.origin}/auth/callback`,
+    }),
+  });
+  const tokenData = await tokenResponse.json() as { access_token?: string; error?: string };
+  if (!tokenResponse.ok || !tokenData.access_token) {
+    console.error('GitHub token exchange failed:', tokenData.error ?? tokenResponse.status);
+    return new Response('GitHub sign-in failed', { status: 502 });
+  }
+
+  const userResponse = await fetch(`${githubApiUrl(env)}/user`, {
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      'Authorization': `Bearer ${tokenData.access_token}`,
+      'User-Agent': 'cloudx.sh',
+    },
+  });
+  if (!userResponse.ok) {
+    return new Response('Failed to load GitHub profile', { status: 502 });
+  }
+  const profile = await userResponse.json() as { id: number; login: string };
+
+  const authId = crypto.randomUUID();
+  const user: AuthUser = { id: profile.id, login: profile.login, token: tokenData.access_token };
+  await env.CACHE.put(`auth:${authId}`, JSON.stringify(user), { expirationTtl: AUTH_TTL });
+
+  const headers = new Headers({ Location: redirect });
+  headers.append('Set-Cookie', serializeCookie(SESSION_COOKIE, await signValue(authId, env.SESSION_SECRET!), url, AUTH_TTL));
+  headers.append('Set-Cookie', serializeCookie(STATE_COOKIE, '', url, 0));
+  return new Response(null, { status: 302, headers });
+}
+
+export async function handleAuthLogout(request: Request, env: Env, url: URL): Promise<Response> {
+  const cookie = parseCookies(request)[SESSION_COOKIE];
+  if (cookie && env.SESSION_SECRET) {
+    const authId = await verifySignedValue(cookie, env.SESSION_SECRET);
+    if (authId) {
+      await env.CACHE.delete(`auth:${authId}`);
+    }
+  }
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: '/',
+      'Set-Cookie': serializeCookie(SESSION_COOKIE, '', url, 0),
+    },
+  });
+}
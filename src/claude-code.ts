@@ -0,0 +1,61 @@
+/**
+ * Claude Code agent backend
+ *
+ * Claude Code is a terminal app, so it is served through ttyd: every browser
+ * connection to the preview URL gets its own `claude` process in the repository.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { AgentBackend, AgentConfig } from './agents';
+import { type SupervisedProcess, startSupervised, waitForPort } from './supervisor';
+
+export const CLAUDE_CODE_PORT = 7681;
+
+const CLAUDE_HOME = '/root';
+
+const CLAUDE_CODE: SupervisedProcess = {
+  label: 'Claude Code',
+  command: `ttyd --port ${CLAUDE_CODE_PORT} --writable claude`,
+  port: CLAUDE_CODE_PORT,
+  logFile: '/tmp/claude-code.log',
+};
+
+// Settings live in the home directory so nothing is added to the repository
+async function writeClaudeCodeConfig(sandbox: Sandbox, config: AgentConfig): Promise<void> {
+  await sandbox.mkdir(`${CLAUDE_HOME}/.claude`, { recursive: true });
+  await sandbox.writeFile(`${CLAUDE_HOME}/.claude/settings.json`, JSON.stringify({
+    model: config.model.model,
+    env: {
+      ANTHROPIC_BASE_URL: config.baseUrl,
+      ANTHROPIC_API_KEY: config.apiKey,
+    },
+  }, null, 2));
+
+  // Skip the first-run onboarding, API key and folder trust prompts nobody is around to answer
+  await sandbox.writeFile(`${CLAUDE_HOME}/.claude.json`, JSON.stringify({
+    hasCompletedOnboarding: true,
+    customApiKeyResponses: {
+      approved: [config.apiKey.slice(-20)],
+      rejected: [],
+    },
+    projects: {
+      [config.workDir]: {
+        hasTrustDialogAccepted: true,
+      },
+    },
+  }, null, 2));
+}
+
+export const claudeCodeBackend: AgentBackend = {
+  id: 'claude-code',
+  name: CLAUDE_CODE.label,
+  port: CLAUDE_CODE.port,
+  logFile: CLAUDE_CODE.logFile,
+  providers: ['anthropic'],
+  workspaceFiles: [],
+  writeConfig: writeClaudeCodeConfig,
+  start: (sandbox, workDir) => startSupervised(sandbox, workDir, CLAUDE_CODE),
+  waitUntilReady: (sandbox, onPoll) => waitForPort(sandbox, CLAUDE_CODE, onPoll),
+  // Print mode reads the prompt from stdin; edits are accepted since nobody is around to approve them
+  taskCommand: (promptFile) => `claude -p --permission-mode acceptEdits < ${promptFile}`,
+};
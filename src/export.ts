@@ -0,0 +1,310 @@
+/**
+ * Exporting session changes
+ *
+ * Changes are staged into a scratch index rather than the repository's own, so
+ * exporting never disturbs what the agent or user has staged. The staged tree is
+ * committed on top of HEAD under refs/cloudx/export, which the patch, bundle and
+ * branch push are all built from. Like snapshots, files the agent writes into the
+ * repository are left out. Pull requests are opened through the GitHub API on
+ * behalf of the signed-in owner, see src/github.ts.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import { type AuthUser, githubWebUrl } from './auth';
+import { withGitCredentials } from './git';
+import { createPullRequest, ensureFork, getRepository } from './github';
+import { getModel } from './models';
+import type { Env, PullRequestInfo, SessionInfo } from './types';
+
+export const EXPORT_REF = 'refs/cloudx/export';
+
+const EXPORT_INDEX = '/tmp/cloudx-export.index';
+const EXPORT_PATCH = '/tmp/cloudx-export.patch';
+const EXPORT_BUNDLE = '/tmp/cloudx-export.bundle';
+const EXPORT_MESSAGE = '/tmp/cloudx-export.message';
+
+// Bundles travel through the sandbox API as base64, so keep them reasonably small
+const MAX_BUNDLE_BYTES = 50 * 1024 * 1024;
+
+// How much of the patch is shown to the model writing the pull request description
+const DESCRIBE_PATCH_CHARS = 60000;
+const DESCRIBE_MODEL = 'anthropic/claude-haiku-4-5';
+
+export interface ChangeSummary {
+  patch: string;
+  // `git diff --stat` output, for descriptions that cannot be generated
+  stat: string;
+}
+
+export interface ChangeDescription {
+  title: string;
+  body: string;
+}
+
+// A push GitHub refused because of branch protection or a repository ruleset
+export class ProtectedBranchError extends Error {
+  constructor(readonly repository: string, readonly branch: string) {
+    super(`${repository} does not accept pushes to ${branch}, the branch is protected`);
+    this.name = 'ProtectedBranchError';
+  }
+}
+
+function stageScript(info: SessionInfo, workDir: string, exclude: string[]): string[] {
+  if (!info.baseCommit) {
+    throw new Error('Session has no checkout to export');
+  }
+  const excludeSpecs = exclude.map((file) => ` ':(exclude)${file}'`).join('');
+  return [
+    'set -e',
+    `cd ${workDir}`,
+    `export GIT_INDEX_FILE=${EXPORT_INDEX}`,
+    `rm -f ${EXPORT_INDEX}`,
+    'git read-tree HEAD',
+    `git add -A -- .${excludeSpecs}`,
+  ];
+}
+
+/**
+ * Read the session's changes against its launch commit as a binary patch.
+ * Returns null when there are none.
+ */
+export async function readChanges(
+  sandbox: Sandbox,
+  info: SessionInfo,
+  workDir: string,
+  exclude: string[] = []
+): Promise<ChangeSummary | null> {
+  const result = await sandbox.exec(
+    [
+      ...stageScript(info, workDir, exclude),
+      `git diff --cached --binary ${info.baseCommit} > ${EXPORT_PATCH}`,
+      `git diff --cached --stat ${info.baseCommit}`,
+    ].join('\n'),
+    { timeout: 120000 }
+  );
+  if (!result.success) {
+    throw new Error(`Failed to read workspace changes: ${result.stderr.trim()}`);
+  }
+
+  const { content } = await sandbox.readFile(EXPORT_PATCH);
+  return content ? { patch: content, stat: result.stdout.trim() } : null;
+}
+
+function commitAuthor(user: AuthUser | null): string[] {
+  // GitHub's noreply address attributes the commit to the user without exposing their email
+  const name = user?.login ?? 'cloudx.sh';
+  const email = user ? `${user.id}+${user.login}@users.noreply.github.com` : 'noreply@cloudx.sh';
+  return [
+    `export GIT_AUTHOR_NAME='${name}' GIT_AUTHOR_EMAIL='${email}'`,
+    `export GIT_COMMITTER_NAME='${name}' GIT_COMMITTER_EMAIL='${email}'`,
+  ];
+}
+
+/**
+ * Commit the session's changes to EXPORT_REF and return the commit. Commits the
+ * agent already made are kept; uncommitted work becomes one more commit on top.
+ * Returns null when there is nothing to export.
+ */
+export async function commitChanges(
+  sandbox: Sandbox,
+  info: SessionInfo,
+  workDir: string,
+  exclude: string[],
+  message: string,
+  user: AuthUser | null
+): Promise<string | null> {
+  // The message comes from the model or the user, so it goes through a file rather than the command
+  await sandbox.writeFile(EXPORT_MESSAGE, message);
+  const result = await sandbox.exec(
+    [
+      ...stageScript(info, workDir, exclude),
+      ...commitAuthor(user),
+      'tree=$(git write-tree)',
+      'commit=$(git rev-parse HEAD)',
+      `if [ "$tree" != "$(git rev-parse 'HEAD^{tree}')" ]; then commit=$(git commit-tree "$tree" -p HEAD -F ${EXPORT_MESSAGE}); fi`,
+      `git update-ref ${EXPORT_REF} "$commit"`,
+      `echo "$commit $(git rev-parse "$commit^{tree}") $(git rev-parse '${info.baseCommit}^{tree}')"`,
+    ].join('\n'),
+    { timeout: 120000 }
+  );
+  if (!result.success) {
+    throw new Error(`Failed to commit workspace changes: ${result.stderr.trim()}`);
+  }
+
+  const [commit, tree, baseTree] = result.stdout.trim().split(' ');
+  return tree === baseTree ? null : commit;
+}
+
+// Pack the commits since the launch commit into a git bundle
+export async function createBundle(sandbox: Sandbox, info: SessionInfo, workDir: string): Promise<Uint8Array> {
+  const result = await sandbox.exec(
+    [
+      'set -e',
+      `cd ${workDir}`,
+      `rm -f ${EXPORT_BUNDLE}`,
+      `git bundle create --quiet ${EXPORT_BUNDLE} ${EXPORT_REF} ^${info.baseCommit}`,
+      `wc -c < ${EXPORT_BUNDLE}`,
+    ].join('\n'),
+    { timeout: 120000 }
+  );
+  if (!result.success) {
+    throw new Error(`Failed to create bundle: ${result.stderr.trim()}`);
+  }
+
+  const size = Number(result.stdout.trim());
+  if (size > MAX_BUNDLE_BYTES) {
+    throw new Error(`Bundle is ${(size / 1048576).toFixed(1)} MB, the limit is ${MAX_BUNDLE_BYTES / 1048576} MB`);
+  }
+
+  const { content } = await sandbox.readFile(EXPORT_BUNDLE, { encoding: 'base64' });
+  return Uint8Array.from(atob(content), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Push EXPORT_REF to a branch of a GitHub repository. The user's token is only
+ * handed to git for this push, in its own execution session.
+ */
+export async function pushBranch(
+  env: Env,
+  sandbox: Sandbox,
+  workDir: string,
+  token: string,
+  repository: string,
+  branch: string
+): Promise<void> {
+  const host = githubWebUrl(env);
+  const result = await withGitCredentials(
+    sandbox,
+    token,
+    (git) => git.exec(
+      `cd ${workDir} && git push --force --quiet '${host}/${repository}.git' '${EXPORT_REF}:refs/heads/${branch}'`,
+      { timeout: 120000 }
+    ),
+    host
+  );
+  if (!result.success) {
+    // GH006 is reported for branch protection rules, GH013 for repository rulesets
+    if (/\bGH0(06|13)\b/.test(result.stderr)) {
+      throw new ProtectedBranchError(repository, branch);
+    }
+    throw new Error(`Failed to push branch ${branch} to ${repository}: ${result.stderr.trim()}`);
+  }
+}
+
+/**
+ * Push the session's changes and open a pull request for them against the session's
+ * repository, or push to the pull request opened before. The branch goes to the
+ * repository itself when the user may push there and its rules allow the branch,
+ * and to the user's fork otherwise. Returns null when there is nothing to export.
+ */
+export async function openPullRequest(
+  env: Env,
+  sandbox: Sandbox,
+  info: SessionInfo,
+  workDir: string,
+  exclude: string[],
+  user: AuthUser,
+  requested: Partial<ChangeDescription> = {}
+): Promise<{ pullRequest: PullRequestInfo; created: boolean } | null> {
+  const changes = await readChanges(sandbox, info, workDir, exclude);
+  if (!changes) {
+    return null;
+  }
+
+  if (info.pullRequest) {
+    await commitChanges(sandbox, info, workDir, exclude, exportCommitMessage(info), user);
+    await pushBranch(env, sandbox, workDir, user.token, info.pullRequest.repository, info.pullRequest.branch);
+    return { pullRequest: info.pullRequest, created: false };
+  }
+
+  const generated = requested.title?.trim() && requested.body?.trim()
+    ? null
+    : await describeChanges(env, info, changes);
+  const title = requested.title?.trim() || generated!.title;
+  const body = requested.body?.trim() || generated!.body;
+  await commitChanges(sandbox, info, workDir, exclude, `${title}\n\n${body}`, user);
+
+  const upstream = await getRepository(env, user.token, info.repo);
+  const branch = `cloudx/${info.id.slice(0, 8)}`;
+  let target = upstream.permissions?.push ? upstream : await ensureFork(env, user.token, upstream.full_name);
+  try {
+    await pushBranch(env, sandbox, workDir, user.token, target.full_name, branch);
+  } catch (e) {
+    // Rulesets may limit which branches collaborators can create; the user's fork has none of them
+    if (!(e instanceof ProtectedBranchError) || target !== upstream) {
+      throw e;
+    }
+    target = await ensureFork(env, user.token, upstream.full_name);
+    await pushBranch(env, sandbox, workDir, user.token, target.full_name, branch);
+  }
+
+  const pullRequest = await createPullRequest(env, user.token, upstream.full_name, {
+    title,
+    body,
+    head: `${target.owner.login}:${branch}`,
+    base: info.ref?.type === 'branch' ? info.ref.name : upstream.default_branch,
+  });
+  return {
+    pullRequest: { url: pullRequest.html_url, number: pullRequest.number, repository: target.full_name, branch },
+    created: true,
+  };
+}
+
+// Message for commits made without a generated description, e.g. for bundles
+export function exportCommitMessage(info: SessionInfo): string {
+  return `Changes from cloudx.sh session ${info.id.slice(0, 8)}`;
+}
+
+function fallbackDescription(info: SessionInfo, changes: ChangeSummary): ChangeDescription {
+  return {
+    title: exportCommitMessage(info),
+    body: `Changes made in a [cloudx.sh](https://cloudx.sh) session on ${info.repo}.\n\n\`\`\`\n${changes.stat}\n\`\`\``,
+  };
+}
+
+/**
+ * Ask a model for a pull request title and body describing the changes. Falls
+ * back to a generic description when no Anthropic key is configured or the
+ * request fails, since the pull request should not depend on it.
+ */
+export async function describeChanges(env: Env, info: SessionInfo, changes: ChangeSummary): Promise<ChangeDescription> {
+  if (!env.ANTHROPIC_API_KEY) {
+    return fallbackDescription(info, changes);
+  }
+
+  const patch = changes.patch.length > DESCRIBE_PATCH_CHARS
+    ? `${changes.patch.slice(0, DESCRIBE_PATCH_CHARS)}\n[patch truncated]`
+    : changes.patch;
+
+  try {
+    const response = await fetch(`${env.ANTHROPIC_API_URL ?? 'https://api.anthropic.com'}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': env.ANTHROPIC_API_KEY,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: getModel(DESCRIBE_MODEL)!.model,
+        max_tokens: 1024,
+        system: 'You write pull request descriptions. Reply with only a JSON object with the keys "title" (one line, ' +
+          'imperative mood, at most 72 characters) and "body" (Markdown: what changed and why, in a few sentences or bullets).',
+        messages: [{ role: 'user', content: `Repository: ${info.repo}\n\nChanges:\n${changes.stat}\n\nPatch:\n${patch}` }],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json<{ content: Array<{ type: string; text?: string }> }>();
+    const text = data.content.find((block) => block.type === 'text')?.text ?? '';
+    const description = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1)) as Partial<ChangeDescription>;
+    if (typeof description.title !== 'string' || typeof description.body !== 'string' || !description.title.trim()) {
+      throw new Error('Response is missing a title or body');
+    }
+    return { title: description.title.trim().split('\n')[0], body: description.body.trim() };
+  } catch (e) {
+    console.error('Failed to generate pull request description:', e);
+    return fallbackDescription(info, changes);
+  }
+}
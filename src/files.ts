@@ -0,0 +1,90 @@
+/**
+ * Read-only file browser
+ *
+ * The session page lists and shows files of the cloned repository. Paths are
+ * relative to REPO_DIR and are resolved inside the sandbox first, so a symlink
+ * in the repository cannot lead out of it to the agent's settings or the stored
+ * environment variables. Git's own metadata is left out of listings.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import { REPO_DIR } from './setup';
+
+// Larger files are listed but not shown
+export const MAX_VIEW_BYTES = 1024 * 1024;
+
+const MAX_PATH_LENGTH = 1024;
+
+const HIDDEN_ENTRIES = new Set(['.git']);
+
+export class FileBrowserError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'FileBrowserError';
+  }
+}
+
+export interface FileEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+}
+
+export type FileView =
+  | { path: string; type: 'directory'; entries: FileEntry[] }
+  // Content is left out of binary files
+  | { path: string; type: 'file'; size: number; binary: boolean; content?: string };
+
+// Accepts "", "src" or "src/index.ts"; ".." segments are refused outright rather than resolved
+function parseRelativePath(path: string): string {
+  const segments = path.split('/').filter((segment) => segment && segment !== '.');
+  if (path.length > MAX_PATH_LENGTH || path.includes('\0') || segments.includes('..') || HIDDEN_ENTRIES.has(segments[0])) {
+    throw new FileBrowserError('Invalid path', 400);
+  }
+  return segments.join('/');
+}
+
+// The real path and kind of what a repository path points at, after following symlinks
+async function resolvePath(sandbox: Sandbox, relative: string): Promise<{ path: string; kind: string; size: number }> {
+  const target = `${REPO_DIR}/${relative}`.replace(/'/g, `'\\''`);
+  const result = await sandbox.exec(
+    `real=$(realpath -e -- '${target}') && stat -L -c '%F|%s' -- "$real" && echo "$real"`,
+    { timeout: 10000 }
+  );
+  if (!result.success) {
+    throw new FileBrowserError('File not found', 404);
+  }
+  const [stat, path] = result.stdout.trim().split('\n');
+  if (path !== REPO_DIR && !path.startsWith(`${REPO_DIR}/`)) {
+    throw new FileBrowserError('File not found', 404);
+  }
+  const [kind, size] = stat.split('|');
+  return { path, kind, size: Number(size) };
+}
+
+export async function viewFile(sandbox: Sandbox, path: string): Promise<FileView> {
+  const relative = parseRelativePath(path);
+  const resolved = await resolvePath(sandbox, relative);
+
+  if (resolved.kind === 'directory') {
+    const { files } = await sandbox.listFiles(resolved.path, { includeHidden: true });
+    const entries = files
+      .filter((file) => !(resolved.path === REPO_DIR && HIDDEN_ENTRIES.has(file.name)))
+      .map(({ name, type, size }) => ({ name, type, size }))
+      // Directories first, like most file trees
+      .sort((a, b) => Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name));
+    return { path: relative, type: 'directory', entries };
+  }
+
+  if (!resolved.kind.startsWith('regular')) {
+    throw new FileBrowserError('Only files and directories can be viewed', 400);
+  }
+  if (resolved.size > MAX_VIEW_BYTES) {
+    throw new FileBrowserError(`File is over ${MAX_VIEW_BYTES / 1024 / 1024} MB`, 413);
+  }
+  const file = await sandbox.readFile(resolved.path);
+  if (file.isBinary || file.encoding === 'base64') {
+    return { path: relative, type: 'file', size: resolved.size, binary: true };
+  }
+  return { path: relative, type: 'file', size: resolved.size, binary: false, content: file.content };
+}
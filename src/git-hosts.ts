@@ -0,0 +1,353 @@
+/**
+ * Git hosts
+ *
+ * Launch URLs name a repository as /<hostname>/<path>. Each host knows how to
+ * split its URLs into the repository path and the ref being browsed, which names
+ * it accepts, how to tell whether a repository is public and where to clone it
+ * from. Hosts other than the ones listed are cloned over plain HTTPS, unless
+ * their hostname is private or reserved.
+ *
+ * A repository's full name identifies it in sessions, snapshots and access lists.
+ * GitHub repositories keep their plain "owner/repo"; others are prefixed with
+ * their hostname, e.g. "gitlab.com/group/subgroup/project". GitHub owners cannot
+ * contain dots, so the two forms never collide.
+ */
+
+import { githubApiUrl } from './auth';
+import type { Env } from './types';
+
+export type GitHostId = 'github' | 'gitlab' | 'bitbucket' | 'codeberg' | 'generic';
+
+export interface RepoAccess {
+  accessible: boolean;
+  private?: boolean;
+  error?: string;
+  // Set when the host could not be asked, as opposed to a repository it refused
+  unverified?: boolean;
+}
+
+export interface GitHost {
+  id: GitHostId;
+  // Display name, e.g. "GitLab"
+  name: string;
+  /**
+   * Split the launch URL segments after the hostname into the repository path and
+   * the segments naming a ref, rewritten to the /tree, /blob, /commit and /pull
+   * form that parseRepoRef reads.
+   */
+  splitPath(segments: string[]): { path: string[]; refSegments: string[] } | { error: string };
+  // Whether each repository path segment is a valid name on this host
+  isValidPath(path: string[]): boolean;
+  cloneUrl(hostname: string, path: string): string;
+  // Only GitHub repositories can be checked with the signed-in user's token
+  checkAccess(env: Env, hostname: string, path: string, token?: string): Promise<RepoAccess>;
+  // Ref a pull or merge request is fetched from, where the host publishes one
+  pullRefspec?(number: string): string;
+}
+
+// Where a launch URL or task points, once its host has validated it
+export interface RepoLocation {
+  host: GitHost;
+  hostname: string;
+  // Repository path on its host, e.g. "octocat/hello-world"
+  path: string;
+  fullName: string;
+  cloneUrl: string;
+}
+
+// GitHub usernames: alphanumeric + hyphens, 1-39 chars, no consecutive hyphens, can't start/end with hyphen
+// Repo names: alphanumeric + hyphens + underscores + dots, 1-100 chars
+const GITHUB_OWNER_REGEX = /^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?$/;
+const GITHUB_REPO_REGEX = /^[a-zA-Z0-9._-]{1,100}$/;
+
+// Names on the other hosts; they end up in clone URLs, so keep them to a conservative character set
+const PATH_SEGMENT_REGEX = /^[a-zA-Z0-9_][a-zA-Z0-9._-]{0,99}$/;
+// Plain git servers also use ~user paths, e.g. git.sr.ht/~user/repo
+const GENERIC_PATH_SEGMENT_REGEX = /^[a-zA-Z0-9_~][a-zA-Z0-9._~+-]{0,99}$/;
+const HOSTNAME_REGEX = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Special-use and private-network suffixes, which never name a public git server
+const RESERVED_HOSTNAME_SUFFIXES = [
+  'localhost', 'local', 'localdomain', 'internal', 'intranet', 'private', 'corp', 'home', 'lan',
+  'arpa', 'test', 'example', 'invalid', 'onion',
+];
+// Wildcard DNS names such as 10.0.0.1.nip.io or 10-0-0-1.sslip.io resolve to the address they spell out
+const EMBEDDED_IPV4_REGEX = /(?:^|[.-])\d{1,3}[.-]\d{1,3}[.-]\d{1,3}[.-]\d{1,3}(?:[.-]|$)/;
+
+// GitLab nests groups up to 20 levels deep
+const MAX_GITLAB_DEPTH = 20;
+const MAX_GENERIC_DEPTH = 10;
+
+function isValidSegment(regex: RegExp, segment: string): boolean {
+  return regex.test(segment) && segment !== '.' && segment !== '..';
+}
+
+function stripGitSuffix(path: string[]): string[] {
+  const last = path[path.length - 1];
+  return last?.endsWith('.git') ? [...path.slice(0, -1), last.slice(0, -4)] : path;
+}
+
+/**
+ * Whether a hostname may name a private or reserved address. Launches from other
+ * hosts clone whatever the URL names, so these are refused before anything is
+ * fetched from them.
+ */
+function isReservedHostname(hostname: string): boolean {
+  const labels = hostname.split('.');
+  return labels.length < 2
+    || RESERVED_HOSTNAME_SUFFIXES.includes(labels[labels.length - 1])
+    || EMBEDDED_IPV4_REGEX.test(hostname);
+}
+
+function unverified(hostName: string): RepoAccess {
+  return {
+    accessible: false,
+    unverified: true,
+    error: `Could not verify the repository on ${hostName}. Please try again in a few minutes.`,
+  };
+}
+
+// Repositories on hosts other than GitHub are only opened when they are public
+async function checkPublicRepo(hostName: string, apiUrl: string): Promise<RepoAccess> {
+  try {
+    const response = await fetch(apiUrl, { headers: { 'Accept': 'application/json', 'User-Agent': 'cloudx.sh' } });
+
+    if (response.ok) {
+      return { accessible: true, private: false };
+    } else if (response.status === 401 || response.status === 404) {
+      // Private repositories look the same as missing ones without credentials
+      return {
+        accessible: false,
+        error: `Repository not found. Please check the repository path; only public repositories can be opened from ${hostName}.`,
+      };
+    } else if (response.status === 403 || response.status === 429) {
+      // Rate limited; without an answer the repository may well be private, so it is not opened
+      return unverified(hostName);
+    } else {
+      return { accessible: false, error: `Failed to verify repository (HTTP ${response.status})` };
+    }
+  } catch (error) {
+    console.error('Failed to check repository accessibility:', error);
+    return unverified(hostName);
+  }
+}
+
+const githubHost: GitHost = {
+  id: 'github',
+  name: 'GitHub',
+  splitPath: (segments) => ({ path: stripGitSuffix(segments.slice(0, 2)), refSegments: segments.slice(2) }),
+  isValidPath: (path) => path.length === 2
+    && GITHUB_OWNER_REGEX.test(path[0]) && !path[0].includes('--')
+    && isValidSegment(GITHUB_REPO_REGEX, path[1]),
+  cloneUrl: (_hostname, path) => `https://github.com/${path}.git`,
+  // Check if a GitHub repository is accessible, either publicly or with the signed-in user's token
+  async checkAccess(env, _hostname, path, token) {
+    try {
+      const headers: Record<string, string> = {
+        'Accept': 'application/vnd.github+json',
+        'User-Agent': 'cloudx.sh',
+      };
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+
+      const response = await fetch(`${githubApiUrl(env)}/repos/${path}`, { headers });
+
+      if (response.status === 200) {
+        const data = await response.json() as { private?: boolean };
+        return { accessible: true, private: Boolean(data.private) };
+      } else if (response.status === 404) {
+        // GitHub answers 404 for private repositories the caller cannot see
+        return {
+          accessible: false,
+          error: token
+            ? 'Repository not found. Please check the owner and repository name, and that your GitHub account has access.'
+            : 'Repository not found. Please check the owner and repository name, or sign in with GitHub to open a private repository.',
+        };
+      } else if (response.status === 403 || response.status === 429) {
+        // Rate limited; the launch would otherwise go ahead without knowing whether the repository is private
+        return unverified('GitHub');
+      } else {
+        return { accessible: false, error: `Failed to verify repository (HTTP ${response.status})` };
+      }
+    } catch (error) {
+      console.error('Failed to check repository accessibility:', error);
+      return unverified('GitHub');
+    }
+  },
+  pullRefspec: (number) => `refs/pull/${number}/head`,
+};
+
+// Projects sit in nested groups, so the path runs until GitLab's "/-/" separator
+const gitlabHost: GitHost = {
+  id: 'gitlab',
+  name: 'GitLab',
+  splitPath(segments) {
+    const separator = segments.indexOf('-');
+    const path = stripGitSuffix(separator === -1 ? segments : segments.slice(0, separator));
+    const [kind, ...rest] = separator === -1 ? [] : segments.slice(separator + 1);
+    if (kind === undefined) {
+      return { path, refSegments: [] };
+    }
+    return { path, refSegments: [kind === 'merge_requests' ? 'pull' : kind, ...rest] };
+  },
+  isValidPath: (path) => path.length >= 2 && path.length <= MAX_GITLAB_DEPTH
+    && path.every((segment) => isValidSegment(PATH_SEGMENT_REGEX, segment)),
+  cloneUrl: (hostname, path) => `https://${hostname}/${path}.git`,
+  checkAccess: (_env, hostname, path) => checkPublicRepo('GitLab', `https://${hostname}/api/v4/projects/${encodeURIComponent(path)}`),
+  pullRefspec: (number) => `refs/merge-requests/${number}/head`,
+};
+
+// Bitbucket browses refs as /src/<ref>/<path> and does not publish pull request refs
+const bitbucketHost: GitHost = {
+  id: 'bitbucket',
+  name: 'Bitbucket',
+  splitPath(segments) {
+    const path = stripGitSuffix(segments.slice(0, 2));
+    const [kind, value, ...rest] = segments.slice(2);
+    switch (kind) {
+      case undefined:
+        return { path, refSegments: [] };
+      case 'src':
+        return { path, refSegments: value && rest.length > 0 ? ['blob', value, ...rest] : ['tree', ...(value ? [value] : [])] };
+      case 'commits':
+        return { path, refSegments: ['commit', ...(value ? [value] : [])] };
+      case 'pull-requests':
+        return { path, refSegments: ['pull', ...(value ? [value] : [])] };
+      default:
+        return { path, refSegments: [kind, ...(value ? [value] : []), ...rest] };
+    }
+  },
+  isValidPath: (path) => path.length === 2 && path.every((segment) => isValidSegment(PATH_SEGMENT_REGEX, segment)),
+  cloneUrl: (hostname, path) => `https://${hostname}/${path}.git`,
+  checkAccess: (_env, _hostname, path) => checkPublicRepo('Bitbucket', `https://api.bitbucket.org/2.0/repositories/${path}`),
+};
+
+// Codeberg runs Forgejo, which browses refs as /src/branch/<name>, /src/tag/<name> or /src/commit/<sha>
+const codebergHost: GitHost = {
+  id: 'codeberg',
+  name: 'Codeberg',
+  splitPath(segments) {
+    const path = stripGitSuffix(segments.slice(0, 2));
+    const [kind, ...rest] = segments.slice(2);
+    if (kind === undefined) {
+      return { path, refSegments: [] };
+    }
+    if (kind === 'src') {
+      const [refKind, value, ...filePath] = rest;
+      if (refKind === 'commit') {
+        return { path, refSegments: filePath.length > 0 ? ['blob', value, ...filePath] : ['commit', ...(value ? [value] : [])] };
+      }
+      if (refKind !== 'branch' && refKind !== 'tag') {
+        return { error: `Unsupported Codeberg URL: /src/${refKind ?? ''}` };
+      }
+      return { path, refSegments: value && filePath.length > 0 ? ['blob', value, ...filePath] : ['tree', ...(value ? [value] : [])] };
+    }
+    return { path, refSegments: [kind === 'pulls' ? 'pull' : kind, ...rest] };
+  },
+  isValidPath: (path) => path.length === 2 && path.every((segment) => isValidSegment(PATH_SEGMENT_REGEX, segment)),
+  cloneUrl: (hostname, path) => `https://${hostname}/${path}.git`,
+  checkAccess: (_env, hostname, path) => checkPublicRepo('Codeberg', `https://${hostname}/api/v1/repos/${path}`),
+  pullRefspec: (number) => `refs/pull/${number}/head`,
+};
+
+// Segments that name a ref in the URLs of the hosts above, including self-hosted GitLab's "/-/"
+const REF_SEGMENTS = new Set(['-', 'tree', 'blob', 'src', 'commit', 'commits', 'pull', 'pulls', 'pull-requests', 'merge_requests']);
+
+// Any other host is taken to serve git over HTTPS at the path as given; only its default branch can be launched
+const genericHost: GitHost = {
+  id: 'generic',
+  name: 'Git',
+  splitPath(segments) {
+    // Cloning "repo/tree/main" would fail or, worse, find another repository, so ref URLs are refused outright
+    const kind = segments.slice(1).find((segment) => REF_SEGMENTS.has(segment));
+    if (kind) {
+      return { error: `Only the default branch can be launched from this host, /${kind} URLs are not supported` };
+    }
+    return { path: segments, refSegments: [] };
+  },
+  isValidPath: (path) => path.length >= 1 && path.length <= MAX_GENERIC_DEPTH
+    && path.every((segment) => isValidSegment(GENERIC_PATH_SEGMENT_REGEX, segment)),
+  cloneUrl: (hostname, path) => `https://${hostname}/${path}`,
+  // The smart HTTP endpoint answers for any public repository, whatever serves it
+  checkAccess: (_env, hostname, path) => checkPublicRepo(hostname, `https://${hostname}/${path}/info/refs?service=git-upload-pack`),
+};
+
+const GIT_HOSTS: Record<string, GitHost> = {
+  'github.com': githubHost,
+  'gitlab.com': gitlabHost,
+  'bitbucket.org': bitbucketHost,
+  'codeberg.org': codebergHost,
+};
+
+export function isKnownHostname(hostname: string): boolean {
+  return Object.hasOwn(GIT_HOSTS, hostname);
+}
+
+// The host for a hostname from a launch URL, or null when it is not a valid public hostname
+export function gitHostFor(hostname: string): GitHost | null {
+  if (isKnownHostname(hostname)) {
+    return GIT_HOSTS[hostname];
+  }
+  return HOSTNAME_REGEX.test(hostname) && !isReservedHostname(hostname) ? genericHost : null;
+}
+
+export function repoFullName(hostname: string, path: string): string {
+  return hostname === 'github.com' ? path : `${hostname}/${path}`;
+}
+
+// Hostname a repository full name lives on
+export function repoHostname(fullName: string): string {
+  const [first] = fullName.split('/');
+  return first.includes('.') ? first : 'github.com';
+}
+
+// Launch URL path for a repository full name, e.g. "/github.com/octocat/hello-world"
+export function repoLaunchPath(fullName: string): string {
+  return repoHostname(fullName) === 'github.com' ? `/github.com/${fullName}` : `/${fullName}`;
+}
+
+// The host a clone URL points at, for fetching refs only that host publishes
+export function gitHostForCloneUrl(cloneUrl: string): GitHost | null {
+  return gitHostFor(new URL(cloneUrl).hostname);
+}
+
+/**
+ * Resolve launch URL segments (hostname first) to a repository and the segments
+ * naming a ref, which are left to parseRepoRef. Hostnames are matched lowercased.
+ */
+export function parseRepoLocation(segments: string[]): { repo?: RepoLocation; refSegments?: string[]; error?: string } {
+  const [rawHostname, ...rest] = segments;
+  const hostname = rawHostname?.toLowerCase() ?? '';
+  if (!isKnownHostname(hostname) && isReservedHostname(hostname)) {
+    return { error: 'Private and reserved hostnames cannot be launched' };
+  }
+  const host = gitHostFor(hostname);
+  if (!host) {
+    return { error: 'Invalid git host' };
+  }
+
+  const split = host.splitPath(rest);
+  if ('error' in split) {
+    return { error: split.error };
+  }
+  // Without a published ref the pull request number would be fetched as a branch name
+  if (split.refSegments[0] === 'pull' && !host.pullRefspec) {
+    return { error: `${host.name} pull requests cannot be launched directly, launch their branch instead` };
+  }
+  if (!host.isValidPath(split.path)) {
+    return { error: `Invalid ${host.name} repository path` };
+  }
+
+  const path = split.path.join('/');
+  return {
+    repo: {
+      host,
+      hostname,
+      path,
+      fullName: repoFullName(hostname, path),
+      cloneUrl: host.cloneUrl(hostname, path),
+    },
+    refSegments: split.refSegments,
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Git credentials for sandbox commands
+ *
+ * The GitHub token is handed to git as configuration through environment
+ * variables of an isolated execution session, so it is never written to the
+ * repository, its .git/config, or the session the agent runs in.
+ */
+
+import type { ExecutionSession, Sandbox } from '@cloudflare/sandbox';
+
+// Git reads these as config, so the token authenticates requests to `host` without being written to .git/config
+function gitCredentialEnv(token: string, host: string): Record<string, string> {
+  return {
+    GIT_CONFIG_COUNT: '1',
+    GIT_CONFIG_KEY_0: `http.${host}/.extraheader`,
+    GIT_CONFIG_VALUE_0: `AUTHORIZATION: basic ${btoa(`x-access-token:${token}`)}`,
+  };
+}
+
+/**
+ * Run git work for private repositories in a throwaway execution session holding the
+ * credential. Public repositories use the sandbox directly.
+ */
+export async function withGitCredentials<T>(
+  sandbox: Sandbox,
+  gitToken: string | undefined,
+  task: (git: Sandbox | ExecutionSession) => Promise<T>,
+  host = 'https://github.com'
+): Promise<T> {
+  if (!gitToken) {
+    return task(sandbox);
+  }
+
+  const credentialSession = await sandbox.createSession({ env: gitCredentialEnv(gitToken, host), isolation: true });
+  try {
+    return await task(credentialSession);
+  } finally {
+    await sandbox.deleteSession(credentialSession.id);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * GitHub REST API calls made on behalf of a signed-in user
+ *
+ * Used to export session changes: finding or creating the user's fork and
+ * opening pull requests. GITHUB_API_URL can point these at a local stand-in.
+ */
+
+import { githubApiUrl } from './auth';
+import type { Env } from './types';
+
+const FORK_POLL_ATTEMPTS = 10;
+const FORK_POLL_INTERVAL_MS = 2000;
+
+export class GitHubApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+export interface GitHubRepository {
+  full_name: string;
+  default_branch: string;
+  owner: { login: string };
+  permissions?: { push?: boolean };
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+}
+
+async function githubRequest<T>(env: Env, token: string, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${githubApiUrl(env)}${path}`, {
+    ...init,
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'User-Agent': 'cloudx.sh',
+    },
+  });
+  if (!response.ok) {
+    const data = await response.json<{ message?: string; errors?: Array<{ message?: string }> }>().catch(() => null);
+    const detail = data?.errors?.map((error) => error.message).filter(Boolean).join('; ');
+    throw new GitHubApiError(
+      `GitHub API ${init.method ?? 'GET'} ${path} failed (HTTP ${response.status})${data?.message ? `: ${data.message}` : ''}${detail ? ` (${detail})` : ''}`,
+      response.status
+    );
+  }
+  return response.json<T>();
+}
+
+export async function getRepository(env: Env, token: string, fullName: string): Promise<GitHubRepository> {
+  return githubRequest(env, token, `/repos/${fullName}`);
+}
+
+/**
+ * Return the user's fork of a repository, creating it if needed. GitHub creates
+ * forks asynchronously, so wait until the new fork can be read back.
+ */
+export async function ensureFork(env: Env, token: string, fullName: string): Promise<GitHubRepository> {
+  const fork = await githubRequest<GitHubRepository>(env, token, `/repos/${fullName}/forks`, {
+    method: 'POST',
+    body: JSON.stringify({ default_branch_only: true }),
+  });
+
+  for (let attempt = 0; attempt < FORK_POLL_ATTEMPTS; attempt++) {
+    try {
+      return await getRepository(env, token, fork.full_name);
+    } catch (error) {
+      if (!(error instanceof GitHubApiError) || error.status !== 404) {
+        throw error;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, FORK_POLL_INTERVAL_MS));
+  }
+  throw new Error(`Fork ${fork.full_name} was not ready after ${(FORK_POLL_ATTEMPTS * FORK_POLL_INTERVAL_MS) / 1000}s`);
+}
+
+export async function createPullRequest(
+  env: Env,
+  token: string,
+  fullName: string,
+  pullRequest: { title: string; body: string; head: string; base: string }
+): Promise<GitHubPullRequest> {
+  return githubRequest(env, token, `/repos/${fullName}/pulls`, {
+    method: 'POST',
+    body: JSON.stringify({ ...pullRequest, maintainer_can_modify: true }),
+  });
+}
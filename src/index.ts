@@ -1,39 +1,94 @@
 /**
  * cloudx.sh - GitHub Repository Launcher
  *
- * Intercepts requests to cloudx.sh/github.com/[org]/[repo] and launches
+ * Intercepts requests to cloudx.sh/github.com/[org]/[repo] (or another git host) and launches
  * development environments using Cloudflare Sandbox SDK and OpenCode with Claude Opus 4.5
  */
 
 import {
+  type ExecutionSession,
   Sandbox,
   getSandbox,
   proxyToSandbox,
 } from '@cloudflare/sandbox';
+import {
+  type Visitor,
+  createPreviewAccessUrl,
+  gatePreviewRequest,
+  getVisitor,
+  isCrossOriginRequest,
+  isSessionOwner,
+  previewSandboxId,
+} from './access';
+import {
+  type AuthUser,
+  getAuthUser,
+  handleAuthCallback,
+  handleAuthLogin,
+  handleAuthLogout,
+  loginUrl,
+} from './auth';
+import { AGENT_BACKENDS, type AgentBackend, DEFAULT_AGENT, isAgentId } from './agents';
+import { adminRequiredResponse, createAdminCookie, isAdminRequest, isValidAdminToken } from './admin';
+import { auditPhase, collectAgentCommands, collectAllAgentCommands, recordAudit } from './audit';
+import { DEFAULT_MODEL, MODELS, PROVIDERS, type ModelInfo, availableModels, getModel, isModelAvailable } from './models';
+import { finishTask, reapSessions, stopSession } from './lifecycle';
+import { type MetricGauges, renderMetrics } from './metrics';
+import { createProxyToken, handleLlmProxy, proxyBaseUrl } from './llm-proxy';
+import { formatUsd, spendCaps } from './metering';
+import { ENV_NAME_REGEX, type PortConfig, type RepoConfig, loadRepoConfig } from './repo-config';
+import { type PrebuildInfo, findPrebuild, resolveRemoteCommit, restorePrebuild, savePrebuild } from './prebuilds';
+import { syncAllPreviews, syncPreviews } from './previews';
+import { type LaunchLimit, checkLaunchLimits, checkRepoAllowed, repoAccessLists } from './rate-limit';
+import { holdsSlot, schedulerLimits } from './scheduler';
+import {
+  MAX_SECRETS,
+  SECRET_VALUE_MAX_LENGTH,
+  deleteSecret,
+  findMissingSecrets,
+  isSecretsConfigured,
+  listSecrets,
+  putSecret,
+  readSecrets,
+} from './secrets';
+import { getLaunchCoordinator } from './launch-coordinator';
+import { getSessionRegistry } from './session-registry';
+import { MAX_SESSION_LIFETIME_MS, getSessionStore, loadSessions } from './session-store';
+import { withGitCredentials } from './git';
+import { gitHostForCloneUrl, parseRepoLocation, repoHostname, repoLaunchPath } from './git-hosts';
+import { ProtectedBranchError, commitChanges, createBundle, exportCommitMessage, openPullRequest, readChanges } from './export';
+import { FileBrowserError, viewFile } from './files';
+import { GitHubApiError } from './github';
+import { REPO_DIR, type SetupStep, agentWorkDir, detectSetupSteps, listRepoFiles, runSetupStep } from './setup';
+import { createSnapshot, deleteSnapshot, getSnapshot, listSnapshots, restoreSnapshot } from './snapshots';
+import { AgentStartupError, readLogTail, setAgentEnv } from './supervisor';
+import { connectTerminal, ensureTerminal } from './terminal';
+import { MAX_PROMPT_LENGTH, getTaskResult, readTaskLog, startTask, taskView } from './tasks';
+import { refillWarmPool, warmPoolSize } from './warm-pool';
+import type {
+  AgentId,
+  AuditEvent,
+  AuditEventType,
+  Env,
+  LaunchOptions,
+  LlmUsage,
+  PreviewInfo,
+  RepoRef,
+  SessionEvent,
+  SessionInfo,
+  SessionStatus,
+  SetupStepResult,
+  SnapshotInfo,
+  StopReason,
+} from './types';
 
 // Re-export Sandbox for Durable Object
 export { Sandbox };
-
-interface Env {
-  SANDBOX: DurableObjectNamespace<Sandbox>;
-  CACHE: KVNamespace;
-  ANTHROPIC_API_KEY: string;
-  ENVIRONMENT: string;
-}
-
-// Validate GitHub owner/repo names to prevent command injection
-// GitHub usernames: alphanumeric + hyphens, 1-39 chars, no consecutive hyphens, can't start/end with hyphen
-// Repo names: alphanumeric + hyphens + underscores + dots, 1-100 chars
-const GITHUB_OWNER_REGEX = /^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?$/;
-const GITHUB_REPO_REGEX = /^[a-zA-Z0-9._-]{1,100}$/;
-
-function isValidGitHubOwner(owner: string): boolean {
-  return GITHUB_OWNER_REGEX.test(owner) && !owner.includes('--');
-}
-
-function isValidGitHubRepo(repo: string): boolean {
-  return GITHUB_REPO_REGEX.test(repo) && repo !== '.' && repo !== '..';
-}
+export { RateLimiter } from './rate-limit';
+export { LaunchCoordinator } from './launch-coordinator';
+export { SessionRegistry } from './session-registry';
+export { SessionStore } from './session-store';
+export { SpendLedger } from './spend-ledger';
 
 function sanitizeForShell(input: string): string {
   // Only allow safe characters for shell commands
@@ -47,34 +102,99 @@ function isValidSessionId(sessionId: string): boolean {
   return UUID_REGEX.test(sessionId);
 }
 
-// Check if a GitHub repository is publicly accessible
-async function isRepoPublic(owner: string, repo: string): Promise<{ accessible: boolean; error?: string }> {
+// Refs are interpolated into git commands, so keep them to a conservative character set
+const GIT_REF_REGEX = /^[a-zA-Z0-9._/-]{1,255}$/;
+// Commit URLs may abbreviate the SHA; only full SHAs can be fetched from the remote by name
+const COMMIT_SHA_REGEX = /^[0-9a-f]{7,40}$/;
+const FULL_COMMIT_SHA_REGEX = /^[0-9a-f]{40}$/;
+const PULL_NUMBER_REGEX = /^[1-9][0-9]{0,9}$/;
+const FILE_PATH_SEGMENT_REGEX = /^[a-zA-Z0-9._@+-]{1,255}$/;
+
+function isValidGitRef(ref: string): boolean {
+  return GIT_REF_REGEX.test(ref)
+    && !ref.startsWith('-')
+    && !ref.startsWith('/')
+    && !ref.endsWith('/')
+    && !ref.endsWith('.lock')
+    && !ref.includes('..')
+    && !ref.includes('//');
+}
+
+function isValidFilePath(segments: string[]): boolean {
+  return segments.length > 0
+    && segments.every((segment) => FILE_PATH_SEGMENT_REGEX.test(segment) && segment !== '.' && segment !== '..');
+}
+
+// Parse the URL segments that follow the repository path into a ref and an optional file path, or for
+// /tree/<ref>/<dir> a monorepo subdirectory; each git host rewrites its own URLs to this GitHub-style form
+// (see src/git-hosts.ts). The first segment is taken as the ref, and resolveLaunchRef moves the segments
+// after it into the ref when they continue a branch name such as feature/x. /tree/ and /blob/ refs are
+// branches or tags until resolveLaunchRef finds no such ref on the remote, as a branch may be named like a commit.
+function parseRepoRef(segments: string[]): { ref?: RepoRef; filePath?: string; subdirectory?: string; error?: string } {
+  if (segments.length === 0) {
+    return {};
+  }
+
+  let parts: string[];
   try {
-    const response = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
-      headers: {
-        'Accept': 'application/vnd.github+json',
-        'User-Agent': 'cloudx.sh',
-      },
-    });
+    parts = segments.map((segment) => decodeURIComponent(segment));
+  } catch {
+    return { error: 'Invalid URL encoding in repository URL' };
+  }
 
-    if (response.status === 200) {
-      const data = await response.json() as { private?: boolean };
-      if (data.private) {
-        return { accessible: false, error: 'This repository is private. Only public repositories are supported.' };
-      }
-      return { accessible: true };
-    } else if (response.status === 404) {
-      return { accessible: false, error: 'Repository not found. Please check the owner and repository name.' };
-    } else if (response.status === 403) {
-      // Rate limited - allow the clone attempt anyway
-      return { accessible: true };
-    } else {
-      return { accessible: false, error: `Failed to verify repository (HTTP ${response.status})` };
+  const [kind, value, ...rest] = parts;
+  if (!value) {
+    return { error: `Missing ref after /${kind}` };
+  }
+
+  switch (kind) {
+    case 'tree':
+    case 'blob': {
+      if (!isValidGitRef(value)) {
+        return { error: 'Invalid branch, tag or commit name' };
+      }
+      const ref: RepoRef = { type: 'branch', name: value };
+      if (kind === 'tree' && rest.length === 0) {
+        return { ref };
+      }
+      if (!isValidFilePath(rest)) {
+        return { error: kind === 'tree' ? 'Invalid subdirectory' : 'Invalid file path' };
+      }
+      return kind === 'tree' ? { ref, subdirectory: rest.join('/') } : { ref, filePath: rest.join('/') };
     }
-  } catch (error) {
-    // Network error - allow the clone attempt anyway
-    console.error('Failed to check repository accessibility:', error);
-    return { accessible: true };
+    case 'commit':
+      if (!COMMIT_SHA_REGEX.test(value)) {
+        return { error: 'Invalid commit SHA' };
+      }
+      return { ref: { type: 'commit', name: value } };
+    case 'pull':
+      // Trailing segments such as /files or /commits are ignored
+      if (!PULL_NUMBER_REGEX.test(value)) {
+        return { error: 'Invalid pull request number' };
+      }
+      return { ref: { type: 'pull', name: value } };
+    default:
+      return { error: `Unsupported repository URL: /${kind}` };
+  }
+}
+
+// Whether a launch skipped the container start (warm pool) and the clone and setup (prebuild cache)
+function formatLaunchStart(info: SessionInfo): string {
+  const prebuild = info.prebuildCommit ? `the prebuild of <code>${info.prebuildCommit.slice(0, 7)}</code>` : null;
+  if (info.warmSandbox) {
+    return prebuild ? `Served warm from a pre-started sandbox and ${prebuild}` : 'Served warm from a pre-started sandbox';
+  }
+  return prebuild ? `Served warm from ${prebuild}` : 'Cold start';
+}
+
+function formatRef(ref: RepoRef): string {
+  switch (ref.type) {
+    case 'branch':
+      return ref.name;
+    case 'commit':
+      return ref.name.slice(0, 7);
+    case 'pull':
+      return `#${ref.name}`;
   }
 }
 
@@ -87,9 +207,48 @@ export default {
       return Response.json({ status: 'ok', service: 'cloudx.sh' });
     }
 
-    // API: Launch a new sandbox for a GitHub repo
-    if (url.pathname.startsWith('/github.com/')) {
-      return handleGitHubLaunch(request, env, ctx, url);
+    // GitHub OAuth sign-in
+    if (url.pathname === '/auth/login') {
+      return handleAuthLogin(env, url);
+    }
+    if (url.pathname === '/auth/callback') {
+      return handleAuthCallback(request, env, url);
+    }
+    if (url.pathname === '/auth/logout') {
+      return handleAuthLogout(request, env, url);
+    }
+
+    // Model provider APIs for agents inside sandboxes, which hold a proxy token instead of a key
+    if (url.pathname.startsWith('/llm/')) {
+      return handleLlmProxy(request, env, ctx, url);
+    }
+
+    // API: Launch a new sandbox for a repo, e.g. /github.com/owner/repo or /gitlab.com/group/project.
+    // Preview hostnames serve the sandbox's own paths, which may start with a dotted segment too
+    if (/^\/[^/]+\.[^/]+\//.test(url.pathname) && !previewSandboxId(url)) {
+      return handleLaunch(request, env, ctx, url);
+    }
+
+    // API: Counters and latency histograms in Prometheus text format, for operators
+    if (url.pathname === '/api/metrics') {
+      return handleMetrics(request, env);
+    }
+
+    // Operator dashboard, and the sign-in that trades ADMIN_TOKEN for a cookie
+    if (url.pathname === '/admin') {
+      return handleAdminPage(request, env, url);
+    }
+    if (url.pathname === '/admin/login') {
+      return handleAdminLogin(request, env, url);
+    }
+
+    // API: Force-stop a session or release its launch key, for operators
+    const adminSessionMatch = url.pathname.match(/^\/api\/admin\/sessions\/([^/]+)\/(stop|release)$/);
+    if (adminSessionMatch) {
+      if (!isValidSessionId(adminSessionMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleAdminSessionAction(request, env, ctx, adminSessionMatch[1], adminSessionMatch[2] as AdminSessionAction);
     }
 
     // API: Get sandbox status
@@ -98,279 +257,2710 @@ export default {
       if (!isValidSessionId(sessionId)) {
         return Response.json({ error: 'Invalid session ID' }, { status: 400 });
       }
-      return handleStatus(env, sessionId);
+      return handleStatus(request, env, url, sessionId);
+    }
+
+    // API: List the current visitor's sessions
+    if (url.pathname === '/api/sessions') {
+      return handleListSessions(request, env, url);
+    }
+
+    // API: Stop a session and tear down its sandbox
+    const sessionMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)$/);
+    if (sessionMatch) {
+      if (!isValidSessionId(sessionMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleStopSession(request, env, ctx, url, sessionMatch[1]);
+    }
+
+    // API: Push a session's expiry further out
+    const extendMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/extend$/);
+    if (extendMatch) {
+      if (!isValidSessionId(extendMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleExtendSession(request, env, url, extendMatch[1]);
+    }
+
+    // API: Snapshot a session's workspace to R2
+    const snapshotMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/snapshot$/);
+    if (snapshotMatch) {
+      if (!isValidSessionId(snapshotMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleCreateSnapshot(request, env, url, snapshotMatch[1]);
     }
 
-    // Session page - show status and redirect to OpenCode
+    // API: Download a session's changes as a patch or git bundle
+    const exportMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/export$/);
+    if (exportMatch) {
+      if (!isValidSessionId(exportMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleExportSession(request, env, url, exportMatch[1]);
+    }
+
+    // API: Push a session's changes to a branch and open a pull request upstream
+    const pullRequestMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/pull-request$/);
+    if (pullRequestMatch) {
+      if (!isValidSessionId(pullRequestMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handlePullRequest(request, env, url, pullRequestMatch[1]);
+    }
+
+    // API: Run headless agent tasks and read their results
+    if (url.pathname === '/api/tasks') {
+      return handleTasks(request, env, ctx, url);
+    }
+    const taskMatch = url.pathname.match(/^\/api\/tasks\/([^/]+)(?:\/(logs|diff))?$/);
+    if (taskMatch) {
+      if (!isValidSessionId(taskMatch[1])) {
+        return Response.json({ error: 'Invalid task ID' }, { status: 400 });
+      }
+      return taskMatch[2]
+        ? handleTaskResult(request, env, url, taskMatch[1], taskMatch[2] as 'logs' | 'diff')
+        : handleTask(request, env, ctx, url, taskMatch[1]);
+    }
+
+    // API: List and delete the current visitor's snapshots
+    if (url.pathname === '/api/snapshots') {
+      return handleListSnapshots(request, env, url);
+    }
+    const snapshotIdMatch = url.pathname.match(/^\/api\/snapshots\/([^/]+)$/);
+    if (snapshotIdMatch) {
+      if (!isValidSessionId(snapshotIdMatch[1])) {
+        return Response.json({ error: 'Invalid snapshot ID' }, { status: 400 });
+      }
+      return handleDeleteSnapshot(request, env, url, snapshotIdMatch[1]);
+    }
+
+    // API: Manage the current visitor's secrets
+    if (url.pathname === '/api/secrets') {
+      return handleListSecrets(request, env, url);
+    }
+    const secretMatch = url.pathname.match(/^\/api\/secrets\/([^/]+)$/);
+    if (secretMatch) {
+      if (!ENV_NAME_REGEX.test(secretMatch[1])) {
+        return Response.json({ error: 'Invalid secret name' }, { status: 400 });
+      }
+      return handleSecret(request, env, url, secretMatch[1]);
+    }
+
+    // API: Stream session progress as Server-Sent Events
+    const eventsMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/events$/);
+    if (eventsMatch) {
+      if (!isValidSessionId(eventsMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleSessionEvents(request, env, url, eventsMatch[1]);
+    }
+
+    // API: List a session's previews, exposing dev servers the agent has started since
+    const previewsMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/previews$/);
+    if (previewsMatch) {
+      if (!isValidSessionId(previewsMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleSessionPreviews(request, env, url, previewsMatch[1]);
+    }
+
+    // API: Read a session's audit log
+    const auditMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/audit$/);
+    if (auditMatch) {
+      if (!isValidSessionId(auditMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleSessionAudit(request, env, url, auditMatch[1]);
+    }
+
+    // API: Open a shell in the session's sandbox over a WebSocket
+    const terminalMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/terminal$/);
+    if (terminalMatch) {
+      if (!isValidSessionId(terminalMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleSessionTerminal(request, env, ctx, url, terminalMatch[1]);
+    }
+
+    // API: List a directory of the session's repository or show one of its files
+    const filesMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/files$/);
+    if (filesMatch) {
+      if (!isValidSessionId(filesMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleSessionFiles(request, env, ctx, url, filesMatch[1]);
+    }
+
+    // API: Provide the environment variables a repo's launch configuration asks for
+    const envMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/env$/);
+    if (envMatch) {
+      if (!isValidSessionId(envMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleSessionEnv(request, env, url, envMatch[1]);
+    }
+
+    // API: Inject some of the owner's secrets into a running session
+    const sessionSecretsMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/secrets$/);
+    if (sessionSecretsMatch) {
+      if (!isValidSessionId(sessionSecretsMatch[1])) {
+        return Response.json({ error: 'Invalid session ID' }, { status: 400 });
+      }
+      return handleSessionSecrets(request, env, url, sessionSecretsMatch[1]);
+    }
+
+    // Owner-only redirect into the agent UI
+    const openMatch = url.pathname.match(/^\/session\/([^/]+)\/open$/);
+    if (openMatch) {
+      if (!isValidSessionId(openMatch[1])) {
+        return new Response('Invalid session ID', { status: 400 });
+      }
+      return handleOpenSession(request, env, url, openMatch[1]);
+    }
+
+    // Session page - show status and redirect to the agent
     if (url.pathname.startsWith('/session/')) {
       const sessionId = url.pathname.replace('/session/', '');
       if (!isValidSessionId(sessionId)) {
         return new Response('Invalid session ID', { status: 400 });
       }
-      return handleSessionPage(env, sessionId, url.origin);
+      return handleSessionPage(request, env, url, sessionId);
+    }
+
+    // Only the session owner may reach the sandbox preview hostnames
+    const gateResponse = await gatePreviewRequest(request, env, url);
+    if (gateResponse) {
+      return gateResponse;
+    }
+
+    // Preview traffic keeps the session from being reaped as idle
+    const previewSessionId = previewSandboxId(url);
+    if (previewSessionId) {
+      ctx.waitUntil(recordActivity(env, previewSessionId));
     }
 
-    // Proxy OpenCode UI requests to sandbox
-    const proxyResponse = await proxyToSandbox(request, env);
+    // Proxy agent UI requests to sandbox
+    const proxyResponse = await proxyToSandbox(request, { Sandbox: env.SANDBOX });
     if (proxyResponse) {
       return proxyResponse;
     }
 
     // Home page
     if (url.pathname === '/') {
-      return new Response(renderHomePage(), {
+      const user = await getAuthUser(request, env);
+      return new Response(renderHomePage(user, availableModels(env)), {
         headers: { 'Content-Type': 'text/html' },
       });
     }
 
     return new Response('Not Found', { status: 404 });
   },
+
+  // Cron trigger: tear down expired, idle, stalled and failed sandboxes
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    // Reaping frees sandbox slots, which go to sessions waiting in line before the warm pool
+    ctx.waitUntil(reapSessions(env).then(() => refillWarmPool(env)).then(() => admitQueuedSessions(env, ctx)));
+    ctx.waitUntil(syncAllPreviews(env));
+    ctx.waitUntil(collectAllAgentCommands(env));
+  },
 };
 
-async function handleGitHubLaunch(
+// Activity is written at most once a minute per session from each isolate
+const ACTIVITY_INTERVAL_MS = 60000;
+const lastActivity = new Map<string, number>();
+
+async function recordActivity(env: Env, sessionId: string): Promise<void> {
+  const now = Date.now();
+  if (now - (lastActivity.get(sessionId) ?? 0) < ACTIVITY_INTERVAL_MS) {
+    return;
+  }
+  lastActivity.set(sessionId, now);
+  try {
+    await getSessionStore(env, sessionId).touchSession();
+  } catch (e) {
+    console.error('Failed to record session activity:', e);
+  }
+}
+
+async function handleLaunch(
   request: Request,
   env: Env,
   ctx: ExecutionContext,
   url: URL
 ): Promise<Response> {
-  // Parse GitHub URL: /github.com/owner/repo
-  const pathParts = url.pathname.split('/').filter(Boolean);
-  if (pathParts.length < 3 || pathParts[0] !== 'github.com') {
-    return Response.json({ error: 'Invalid GitHub URL format' }, { status: 400 });
+  // The launch audit event times the request up to the claim, which is mostly the repository access check
+  const receivedAt = Date.now();
+
+  // Parse /<host>/<repo path>[/tree/<ref>|/blob/<ref>/<path>|/commit/<sha>|/pull/<n>], in the host's own URL form.
+  // The host validates the repository path to prevent command injection
+  const { repo, refSegments, error: repoError } = parseRepoLocation(url.pathname.split('/').filter(Boolean));
+  if (!repo) {
+    return Response.json({ error: repoError }, { status: 400 });
+  }
+  const blocked = checkRepoAllowed(env, repo.fullName);
+  if (blocked) {
+    return refusalResponse(request, 403, 'Repository not available', blocked);
   }
 
-  const owner = pathParts[1];
-  const repo = pathParts[2].split('/')[0];
-
-  // Validate owner and repo to prevent command injection
-  if (!isValidGitHubOwner(owner)) {
-    return Response.json({ error: 'Invalid GitHub owner name' }, { status: 400 });
+  const { ref, filePath, subdirectory, error: refError } = parseRepoRef(refSegments ?? []);
+  if (refError) {
+    return Response.json({ error: refError }, { status: 400 });
   }
-  if (!isValidGitHubRepo(repo)) {
-    return Response.json({ error: 'Invalid GitHub repository name' }, { status: 400 });
+
+  // ?agent= and ?model= override the repo config
+  const { agent, model, error: choicesError } = parseLaunchChoices(
+    env,
+    url.searchParams.get('agent'),
+    url.searchParams.get('model')
+  );
+  if (choicesError) {
+    return Response.json({ error: choicesError }, { status: 400 });
   }
 
-  // Check if repository is publicly accessible before proceeding
-  const repoCheck = await isRepoPublic(owner, repo);
+  // Check if repository is accessible before proceeding; only GitHub sign-in grants access to private repositories
+  const user = await getAuthUser(request, env);
+  const isGitHub = repo.host.id === 'github';
+  const repoCheck = await repo.host.checkAccess(env, repo.hostname, repo.path, isGitHub ? user?.token : undefined);
   if (!repoCheck.accessible) {
-    return Response.json({ error: repoCheck.error }, { status: 400 });
+    return Response.json(
+      { error: repoCheck.error, ...(user || !isGitHub ? {} : { loginUrl: loginUrl(url.pathname) }) },
+      { status: repoCheck.unverified ? 503 : 400 }
+    );
+  }
+
+  // Use the validated values as the canonical repository identifier
+  const repoFullName = repo.fullName;
+  const repoUrl = repo.cloneUrl;
+
+  // Sessions belong to the visitor who launched them, so every visitor gets their own
+  // sandbox per repo and ref; the default branch keeps the plain repo key. An explicitly
+  // requested agent, model or snapshot gets its own session too
+  const visitor = (await getVisitor(request, env, url, true))!;
+
+  // ?restore= replays one of the visitor's own snapshots of this repository
+  const restoreParam = url.searchParams.get('restore');
+  let restore: SnapshotInfo | undefined;
+  if (restoreParam !== null) {
+    const snapshot = isValidSessionId(restoreParam) ? await getSnapshot(env, visitor.ownerId, restoreParam) : null;
+    if (!snapshot || snapshot.repo.toLowerCase() !== repoFullName.toLowerCase()) {
+      return Response.json({ error: `Snapshot not found for ${repoFullName}: ${restoreParam}` }, { status: 404 });
+    }
+    restore = snapshot;
+  }
+
+  // ?secrets=NPM_TOKEN,DATABASE_URL injects some of the visitor's secrets
+  const secretsParam = url.searchParams.get('secrets');
+  const { names: secrets, error: secretsError } = secretsParam === null
+    ? { names: undefined, error: undefined }
+    : await checkSecretNames(env, visitor.ownerId, secretsParam.split(','));
+  if (secretsError) {
+    return Response.json({ error: secretsError }, { status: 400 });
+  }
+
+  // Colons cannot appear in ref names, so a subdirectory never runs into the ref
+  const repoKey = ref ? `${repoFullName}@${ref.type}:${ref.name}` : repoFullName;
+  const refKey = subdirectory ? `${repoKey}:${subdirectory}` : repoKey;
+  const choices = new URLSearchParams();
+  if (agent) {
+    choices.set('agent', agent);
+  }
+  if (model) {
+    choices.set('model', model.id);
+  }
+  if (restore) {
+    choices.set('restore', restore.id);
+  }
+  if (secrets?.length) {
+    choices.set('secrets', secrets.join(','));
+  }
+  const choicesKey = choices.toString() ? `${refKey}?${choices}` : refKey;
+  const sessionKey = `${choicesKey}#${visitor.ownerId}`;
+
+  // Returning to a live session is not a new launch and does not count against the limits
+  const coordinator = getLaunchCoordinator(env, choicesKey);
+  const existing = await coordinator.findLiveSession(sessionKey);
+  if (existing) {
+    return redirectToSession(url, existing.id, visitor);
+  }
+  const limit = await checkLaunchLimits(env, request, visitor.ownerId);
+  if (limit) {
+    return rateLimitedResponse(request, limit);
+  }
+
+  // The coordinator serializes claims, so concurrent launches for the same key share one session
+  const { session, created } = await coordinator.claimSession({ launchKey: choicesKey, sessionKey }, {
+    repo: repoFullName,
+    repoUrl,
+    hostname: url.host,
+    ref,
+    filePath,
+    subdirectory,
+    private: repoCheck.private ?? false,
+    owner: visitor.ownerId,
+    agent,
+    model: model?.id,
+    restoredFrom: restore?.id,
+    secrets,
+  }, {
+    repoUrl,
+    hostname: url.host,
+    ref,
+    filePath,
+    subdirectory,
+    agent,
+    model: model?.id,
+    restore,
+    secrets,
+    // Only needed for private repositories, and only kept while the session waits for a sandbox
+    gitToken: repoCheck.private ? user?.token : undefined,
+  }, schedulerLimits(env));
+
+  if (created) {
+    await recordAudit(env, session.id, { type: 'launch', success: true, durationMs: Date.now() - receivedAt, detail: choicesKey });
+    await admitQueuedSessions(env, ctx);
+    rebalanceWarmPool(env, ctx);
+  }
+
+  // Redirect to session page
+  return redirectToSession(url, session.id, visitor);
+}
+
+// Hand free sandbox slots to queued sessions and initialize the admitted ones in the background
+async function admitQueuedSessions(env: Env, ctx: ExecutionContext): Promise<void> {
+  const admitted = await getSessionRegistry(env).admitQueued(schedulerLimits(env));
+  for (const launch of admitted) {
+    ctx.waitUntil(initializeSandbox(env, getSandbox(env.SANDBOX, launch.sessionId), launch));
+  }
+}
+
+// Replace a warm sandbox a launch took over, or give pooled ones up to a launch left waiting in line
+function rebalanceWarmPool(env: Env, ctx: ExecutionContext): void {
+  if (warmPoolSize(env) > 0) {
+    ctx.waitUntil(refillWarmPool(env).then(() => admitQueuedSessions(env, ctx)));
+  }
+}
+
+// Validate a requested agent and model; the model must be on the allowlist and supported by the agent
+function parseLaunchChoices(
+  env: Env,
+  agentParam: string | null,
+  modelParam: string | null
+): { agent?: AgentId; model?: ModelInfo; error?: string } {
+  if (agentParam !== null && !isAgentId(agentParam)) {
+    return { error: `Unknown agent "${agentParam}". Available agents: ${Object.keys(AGENT_BACKENDS).join(', ')}` };
+  }
+  const agent = agentParam ?? undefined;
+
+  if (modelParam === null) {
+    return { agent };
+  }
+  const model = getModel(modelParam);
+  if (!model || !isModelAvailable(env, model)) {
+    return { error: `Unknown model "${modelParam}". Available models: ${availableModels(env).map((m) => m.id).join(', ')}` };
+  }
+  if (agent && !AGENT_BACKENDS[agent].providers.includes(model.provider)) {
+    return { error: `${AGENT_BACKENDS[agent].name} does not support ${PROVIDERS[model.provider].name} models` };
+  }
+  return { agent, model };
+}
+
+// Validate secret names chosen for a launch against the owner's stored secrets
+async function checkSecretNames(
+  env: Env,
+  owner: string,
+  requested: string[]
+): Promise<{ names?: string[]; error?: string }> {
+  const names = [...new Set(requested.map((name) => name.trim()).filter(Boolean))].sort();
+  if (names.length === 0) {
+    return { names: undefined };
+  }
+  if (!isSecretsConfigured(env)) {
+    return { error: 'Secrets are not enabled on this deployment' };
   }
+  const missing = await findMissingSecrets(env, owner, names);
+  if (missing.length) {
+    return { error: `Unknown secrets: ${missing.join(', ')}` };
+  }
+  return { names };
+}
 
-  // Use the original validated values as the canonical repository identifier
-  const repoFullName = `${owner}/${repo}`;
-  const repoUrl = `https://github.com/${repoFullName}.git`;
+function rateLimitedResponse(request: Request, limit: LaunchLimit): Response {
+  return refusalResponse(request, 429, 'Slow down', limit.message, { 'Retry-After': String(limit.retryAfter) });
+}
 
-  const cacheKey = `session:${repoFullName}`;
-  const lockKey = `lock:${repoFullName}`;
+// Launch refusals as JSON for API clients, or as a page for browsers that navigated to a launch URL
+function refusalResponse(
+  request: Request,
+  status: number,
+  title: string,
+  message: string,
+  headers: Record<string, string> = {}
+): Response {
+  if (!request.headers.get('Accept')?.includes('text/html')) {
+    const retryAfter = headers['Retry-After'];
+    return Response.json({ error: message, ...(retryAfter ? { retryAfter: Number(retryAfter) } : {}) }, { status, headers });
+  }
+  return new Response(renderNoticePage(title, message), {
+    status,
+    headers: { ...headers, 'Content-Type': 'text/html' },
+  });
+}
 
-  // Check for existing session first
-  const existingSessionId = await env.CACHE.get(cacheKey);
-  if (existingSessionId) {
-    return Response.redirect(`${url.origin}/session/${existingSessionId}`, 302);
+function redirectToSession(url: URL, sessionId: string, visitor: Visitor): Response {
+  const headers = new Headers({ Location: `${url.origin}/session/${sessionId}` });
+  if (visitor.setCookie) {
+    headers.append('Set-Cookie', visitor.setCookie);
   }
+  return new Response(null, { status: 302, headers });
+}
+
+async function initializeSandbox(env: Env, sandbox: Sandbox, requested: LaunchOptions): Promise<void> {
+  const { sessionId } = requested;
+  const startedAt = Date.now();
+  let backend: AgentBackend | undefined;
+  try {
+    // Secrets go in first so setup commands such as npm install can use them
+    if (requested.secrets?.length) {
+      await injectLaunchSecrets(env, sandbox, sessionId, requested.secrets);
+    }
+
+    // Update status
+    await updateSessionStatus(env, sessionId, 'cloning');
+
+    // The repo config is applied while git credentials are still available, as depth and submodules need them.
+    // A prebuild already has the history and submodules its repo config asked for
+    const cloneDetail = requested.restore
+      ? `snapshot ${requested.restore.id}`
+      : requested.ref && `${requested.ref.type}:${requested.ref.name}`;
+    const { launch, files, config, prebuild } = await auditPhase(env, sessionId, 'clone', cloneDetail, () => withGitCredentials(sandbox, requested.gitToken, async (git) => {
+      const launch = await resolveLaunchRef(env, git, requested);
+      const prebuild = launch.restore ? null : await restoreLaunchPrebuild(env, sandbox, git, sessionId, launch);
+      if (!prebuild) {
+        await withCloneProgress(env, sandbox, sessionId, checkoutRepo(git, launch.repoUrl, launch.ref, launch.subdirectory));
+      }
+      await recordBaseCommit(env, git, sessionId, launch);
+      const files = await listRepoFiles(sandbox, REPO_DIR);
+      const config = await loadLaunchConfig(env, sandbox, sessionId, files);
+      if (!prebuild) {
+        await applyCloneOptions(env, git, sessionId, config);
+      }
+      return { launch, files, config, prebuild };
+    }));
+    const workDir = agentWorkDir(launch.subdirectory);
+
+    // Launch parameters win over the repo config; the repo config model was checked against the allowlist
+    const agent = launch.agent ?? config.agent ?? DEFAULT_AGENT;
+    const model = getModel(launch.model ?? config.model ?? DEFAULT_MODEL)!;
+    // Also kept outside the try block, whose error handling reads the agent's log
+    const agentBackend = AGENT_BACKENDS[agent];
+    backend = agentBackend;
+    await getSessionStore(env, sessionId).recordLaunchChoices({ agent, model: model.id });
+
+    if (!PROVIDERS[model.provider].apiKey(env)) {
+      throw new Error(`${model.name} is not enabled on this deployment (no ${PROVIDERS[model.provider].name} API key)`);
+    }
+    if (!backend.providers.includes(model.provider)) {
+      throw new Error(`${backend.name} does not support ${PROVIDERS[model.provider].name} models`);
+    }
+
+    // The launch configuration comes from the repository root, but toolchains are detected where the agent works
+    await updateSessionStatus(env, sessionId, 'installing');
+    if (prebuild) {
+      await reportProgress(env, sessionId, 'Dependencies were installed in the prebuild, skipping setup');
+    } else {
+      const setup = await setupProject(env, sandbox, sessionId, workDir, launch.subdirectory ? await listRepoFiles(sandbox, workDir) : files, config);
+      // Workspaces that saw the owner's secrets or a snapshot are not shared through the cache
+      if (setup.length > 0 && setup.every((step) => step.success) && !launch.restore && !launch.secrets?.length) {
+        await saveLaunchPrebuild(env, sandbox, sessionId, launch.subdirectory);
+      }
+    }
+
+    await updateSessionStatus(env, sessionId, 'starting');
+    await reportProgress(env, sessionId, `Writing ${backend.name} configuration`);
+
+    await backend.writeConfig(sandbox, {
+      workDir,
+      model,
+      baseUrl: proxyBaseUrl(env, launch.hostname, model.provider),
+      apiKey: await createProxyToken(env, sessionId, model.provider),
+    });
+
+    const { prompt } = launch;
+    if (prompt !== undefined) {
+      await reportProgress(env, sessionId, `Running task with ${backend.name}`);
+      await auditPhase(env, sessionId, 'start', `${backend.name} task with ${model.name}`, () => startTask(sandbox, agentBackend, workDir, prompt));
+      await getSessionStore(env, sessionId).recordTaskStart();
+      await updateSessionStatus(env, sessionId, 'running');
+      return;
+    }
+
+    // Start the agent under its supervisor and wait until it answers, streaming its log meanwhile
+    const { logFile } = backend;
+    await reportProgress(env, sessionId, `Starting ${backend.name} on port ${backend.port}`);
+    await auditPhase(env, sessionId, 'start', `${backend.name} with ${model.name}`, async () => {
+      await agentBackend.start(sandbox, workDir);
+      await agentBackend.waitUntilReady(sandbox, () => reportLogTail(env, sandbox, sessionId, logFile));
+    });
+
+    // Update status to running
+    await updateSessionStatus(env, sessionId, 'running');
 
-  // Try to acquire a lock to prevent race conditions
-  // Use a short TTL lock that expires if the process fails
-  const lockValue = crypto.randomUUID();
-  let existingLock = await env.CACHE.get(lockKey);
+    // Expose the agent UI
+    try {
+      const portInfo = await auditPhase(env, sessionId, 'expose', `port ${backend.port}`, () =>
+        sandbox.exposePort(agentBackend.port, { hostname: launch.hostname, name: agentBackend.name }));
+      await getSessionStore(env, sessionId).setPreviewUrl(portInfo.url);
+    } catch (e) {
+      console.error('Failed to expose port:', e);
+    }
 
-  if (existingLock) {
-    // Another request is creating a session; wait (with timeout) and check again
-    const maxWaitMs = 5000;
-    const pollIntervalMs = 500;
-    const start = Date.now();
-    let timedOut = false;
+    await exposeConfiguredPorts(env, sandbox, sessionId, config.ports, launch.hostname);
 
-    while (true) {
-      // Check if we've waited too long
-      if (Date.now() - start >= maxWaitMs) {
-        timedOut = true;
-        break;
+    if (launch.filePath) {
+      if (backend.openFile) {
+        await backend.openFile(sandbox, launch.filePath);
+      } else {
+        await reportProgress(env, sessionId, `${backend.name} cannot open ${launch.filePath} automatically`);
       }
+    }
+  } catch (error) {
+    console.error('Sandbox initialization failed:', error);
+    // A stopped session's sandbox is being torn down, so there is nothing left to report
+    if ((await getSessionStore(env, sessionId).getSession())?.status === 'stopped') {
+      return;
+    }
+    await recordAudit(env, sessionId, { type: 'error', success: false, durationMs: Date.now() - startedAt, detail: String(error) });
+    const logTail = error instanceof AgentStartupError
+      ? error.logTail
+      : backend ? await readLogTail(sandbox, backend.logFile) : [];
+    await updateSessionStatus(env, sessionId, 'error', String(error), logTail.length ? logTail : undefined);
+  } finally {
+    lastLogTails.delete(sessionId);
+  }
+}
+
+/**
+ * Unpack the prebuild for the commit a launch resolves to, if there is one. The
+ * cache is best effort: when the commit cannot be resolved or the prebuild does
+ * not unpack, the launch clones as usual.
+ */
+async function restoreLaunchPrebuild(
+  env: Env,
+  sandbox: Sandbox,
+  git: Sandbox | ExecutionSession,
+  sessionId: string,
+  launch: LaunchOptions
+): Promise<PrebuildInfo | null> {
+  let prebuild: PrebuildInfo | null = null;
+  try {
+    const info = await getSessionStore(env, sessionId).getSession();
+    const commit = await resolveRemoteCommit(git, launch.repoUrl, launch.ref);
+    prebuild = info && commit ? await findPrebuild(env, info.repo, commit, launch.subdirectory) : null;
+    if (!prebuild) {
+      return null;
+    }
+    await reportProgress(env, sessionId, `Restoring prebuild of ${prebuild.commit.slice(0, 7)} (${(prebuild.size / 1048576).toFixed(1)} MB)`);
+    await restorePrebuild(env, sandbox, prebuild);
+    await getSessionStore(env, sessionId).recordPrebuild(prebuild.commit);
+    return prebuild;
+  } catch (e) {
+    console.error(`Failed to restore prebuild for session ${sessionId}:`, e);
+    if (prebuild) {
+      await reportProgress(env, sessionId, 'Prebuild could not be restored, cloning instead');
+      await sandbox.exec(`rm -rf ${REPO_DIR}`, { timeout: 60000 });
+    }
+    return null;
+  }
+}
 
-      // Wait before re-checking
-      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+// Archive a freshly set-up workspace for later launches at the same commit, unless one already exists
+async function saveLaunchPrebuild(env: Env, sandbox: Sandbox, sessionId: string, subdirectory?: string): Promise<void> {
+  try {
+    const info = await getSessionStore(env, sessionId).getSession();
+    if (!info?.baseCommit || await findPrebuild(env, info.repo, info.baseCommit, subdirectory)) {
+      return;
+    }
+    await reportProgress(env, sessionId, `Saving prebuild of ${info.baseCommit.slice(0, 7)}`);
+    const prebuild = await savePrebuild(env, sandbox, info.repo, info.baseCommit, subdirectory);
+    await reportProgress(
+      env,
+      sessionId,
+      prebuild ? `Saved prebuild (${(prebuild.size / 1048576).toFixed(1)} MB)` : 'Workspace is too large to prebuild'
+    );
+  } catch (e) {
+    console.error(`Failed to save prebuild for session ${sessionId}:`, e);
+  }
+}
+
+// Remember the commit snapshots are diffed against, replaying a snapshot first when one was requested
+async function recordBaseCommit(
+  env: Env,
+  git: Sandbox | ExecutionSession,
+  sessionId: string,
+  launch: LaunchOptions
+): Promise<void> {
+  const owner = (await getSessionStore(env, sessionId).getSession())!.owner;
+  if (launch.restore) {
+    await reportProgress(env, sessionId, `Restoring snapshot ${launch.restore.id.slice(0, 8)}`);
+    await restoreSnapshot(env, git, owner, launch.restore, REPO_DIR);
+    await getSessionStore(env, sessionId).recordBaseCommit(launch.restore.baseCommit);
+    return;
+  }
+
+  const result = await git.exec(`cd ${REPO_DIR} && git rev-parse HEAD`, { timeout: 10000 });
+  if (result.success) {
+    await getSessionStore(env, sessionId).recordBaseCommit(result.stdout.trim());
+  }
+}
+
+async function loadLaunchConfig(env: Env, sandbox: Sandbox, sessionId: string, files: Set<string>): Promise<RepoConfig> {
+  const { config, file, errors } = await loadRepoConfig(sandbox, REPO_DIR, files);
+  if (!file) {
+    return config;
+  }
+
+  await getSessionStore(env, sessionId).recordRepoConfig({
+    configFile: file,
+    configErrors: errors.length ? errors : undefined,
+    requiredEnv: config.env.length ? config.env : undefined,
+  });
+  await reportProgress(
+    env,
+    sessionId,
+    errors.length ? `Ignoring invalid ${file}: ${errors.join('; ')}` : `Loaded launch configuration from ${file}`
+  );
+  return config;
+}
+
+// Adjust the clone to the depth and submodule settings from the repo config
+async function applyCloneOptions(
+  env: Env,
+  git: Sandbox | ExecutionSession,
+  sessionId: string,
+  config: RepoConfig
+): Promise<void> {
+  if (config.depth !== undefined) {
+    await reportProgress(env, sessionId, config.depth === 0 ? 'Fetching full history' : `Fetching history to depth ${config.depth}`);
+    const command = config.depth === 0
+      ? 'if [ -f .git/shallow ]; then git fetch --unshallow origin; fi'
+      : `git fetch --depth ${config.depth} origin "$(git rev-parse HEAD)"`;
+    const result = await git.exec(`cd ${REPO_DIR} && ${command}`, { timeout: 300000 });
+    if (!result.success) {
+      throw new Error(`Failed to adjust clone depth: ${result.stderr.trim()}`);
+    }
+  }
+
+  if (config.submodules) {
+    await reportProgress(env, sessionId, 'Initializing submodules');
+    const result = await git.exec(`cd ${REPO_DIR} && git submodule update --init --recursive`, { timeout: 300000 });
+    if (!result.success) {
+      throw new Error(`Failed to initialize submodules: ${result.stderr.trim()}`);
+    }
+  }
+}
+
+// Install runtimes and dependencies; failed steps are recorded but do not stop the launch
+async function setupProject(
+  env: Env,
+  sandbox: Sandbox,
+  sessionId: string,
+  workDir: string,
+  files: Set<string>,
+  config: RepoConfig
+): Promise<SetupStepResult[]> {
+  const steps: SetupStep[] = [
+    ...detectSetupSteps(files),
+    ...config.setup.map((command) => ({ name: 'setup', command })),
+  ];
+  if (steps.length === 0) {
+    await reportProgress(env, sessionId, 'No toolchains detected, skipping setup');
+    return [];
+  }
+
+  const results: SetupStepResult[] = [];
+  for (const step of steps) {
+    await reportProgress(env, sessionId, `Installing: ${step.command}`);
+    const result = await runSetupStep(sandbox, workDir, step);
+    results.push(result);
+    await getSessionStore(env, sessionId).recordSetupStep(result);
+    await recordAudit(env, sessionId, { type: 'setup', success: result.success, durationMs: result.durationMs, detail: step.command });
+    await reportProgress(
+      env,
+      sessionId,
+      `${result.success ? 'Finished' : 'Failed'} ${step.name} in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+  }
+  return results;
+}
+
+async function exposeConfiguredPorts(
+  env: Env,
+  sandbox: Sandbox,
+  sessionId: string,
+  ports: PortConfig[],
+  hostname: string
+): Promise<void> {
+  for (const { port, label } of ports) {
+    try {
+      const { url } = await auditPhase(env, sessionId, 'expose', `port ${port}`, () => sandbox.exposePort(port, { hostname, name: label }));
+      await getSessionStore(env, sessionId).addPreview({ port, label, url });
+    } catch (e) {
+      console.error(`Failed to expose port ${port}:`, e);
+    }
+  }
+}
+
+// Decrypt the chosen secrets into the sandbox environment, which every later command and the agent inherit
+async function injectLaunchSecrets(env: Env, sandbox: Sandbox, sessionId: string, names: string[]): Promise<void> {
+  const info = await getSessionStore(env, sessionId).getSession();
+  const values = info ? await readSecrets(env, info.owner, names) : {};
+  const missing = names.filter((name) => !Object.hasOwn(values, name));
+  if (missing.length) {
+    await reportProgress(env, sessionId, `Secrets deleted since launch were skipped: ${missing.join(', ')}`);
+  }
+  if (Object.keys(values).length) {
+    await sandbox.setEnvVars(values);
+    await reportProgress(env, sessionId, `Injected secrets: ${Object.keys(values).join(', ')}`);
+  }
+}
+
+async function reportProgress(env: Env, sessionId: string, message: string): Promise<void> {
+  await emitSessionEvent(env, sessionId, { type: 'progress', message });
+}
+
+// Event delivery is best effort and must never fail the launch itself
+async function emitSessionEvent(env: Env, sessionId: string, event: SessionEvent): Promise<void> {
+  try {
+    await getSessionStore(env, sessionId).appendEvent(event);
+  } catch (e) {
+    console.error('Failed to emit session event:', e);
+  }
+}
+
+// Push the last lines of the agent log when they changed since the previous report
+const lastLogTails = new Map<string, string>();
+
+async function reportLogTail(env: Env, sandbox: Sandbox, sessionId: string, logFile: string): Promise<void> {
+  const lines = await readLogTail(sandbox, logFile);
+  const tail = lines.join('\n');
+  if (!tail || lastLogTails.get(sessionId) === tail) {
+    return;
+  }
+  lastLogTails.set(sessionId, tail);
+  await emitSessionEvent(env, sessionId, { type: 'log', lines });
+}
+
+// gitCheckout does not stream progress, so report the size of the working tree while it runs
+async function withCloneProgress<T>(env: Env, sandbox: Sandbox, sessionId: string, task: Promise<T>): Promise<T> {
+  let stop!: () => void;
+  const stopped = new Promise<boolean>((resolve) => {
+    stop = () => resolve(false);
+  });
+
+  const report = (async () => {
+    await reportProgress(env, sessionId, 'Cloning repository');
+    while (await Promise.race([stopped, new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 2000))])) {
+      try {
+        const result = await sandbox.exec(`du -sk ${REPO_DIR} 2>/dev/null | cut -f1`, { timeout: 5000 });
+        const kilobytes = Number(result.stdout.trim());
+        if (kilobytes > 0) {
+          await reportProgress(env, sessionId, `Cloning repository: ${(kilobytes / 1024).toFixed(1)} MB received`);
+        }
+      } catch {
+        // The sandbox may still be starting; try again on the next tick
+      }
+    }
+  })();
+
+  try {
+    return await task;
+  } finally {
+    stop();
+    await report;
+  }
+}
+
+/**
+ * Settle what parseRepoRef could only guess. A /tree/ or /blob/ URL names the ref with
+ * the longest run of its segments that is a branch or tag on the remote, so
+ * /tree/feature/x/docs is branch feature/x and subdirectory docs when feature/x exists.
+ * A ref that looks like a commit SHA is checked out as a commit when the remote has no
+ * branch or tag of that name. The ref is left alone when the remote cannot be listed,
+ * for the clone to fail on.
+ */
+async function resolveLaunchRef(env: Env, git: Sandbox | ExecutionSession, launch: LaunchOptions): Promise<LaunchOptions> {
+  const { ref, subdirectory, filePath } = launch;
+  if (ref?.type !== 'branch') {
+    return launch;
+  }
+  // Candidate names by how many path segments they take; a /blob/ URL keeps at least one for the file
+  const segments = (subdirectory ?? filePath)?.split('/') ?? [];
+  const candidates = Array.from(
+    { length: filePath ? segments.length : segments.length + 1 },
+    (_, taken) => [ref.name, ...segments.slice(0, taken)].join('/')
+  );
+  if (candidates.length === 1 && !COMMIT_SHA_REGEX.test(ref.name)) {
+    return launch;
+  }
+  const refs = await listRemoteRefs(git, launch.repoUrl, candidates.filter(isValidGitRef));
+  if (!refs) {
+    return launch;
+  }
+
+  const taken = candidates.map((name) => refs.has(name)).lastIndexOf(true);
+  if (taken === 0) {
+    return launch;
+  }
+  if (taken === -1) {
+    if (!COMMIT_SHA_REGEX.test(ref.name)) {
+      return launch;
+    }
+    const resolved: RepoRef = { type: 'commit', name: ref.name };
+    await getSessionStore(env, launch.sessionId).recordRef({ ref: resolved, subdirectory, filePath });
+    return { ...launch, ref: resolved };
+  }
+
+  const rest = segments.slice(taken).join('/') || undefined;
+  const resolved: Pick<LaunchOptions, 'ref' | 'subdirectory' | 'filePath'> = {
+    ref: { type: 'branch', name: candidates[taken] },
+    subdirectory: subdirectory === undefined ? undefined : rest,
+    filePath: filePath === undefined ? undefined : rest,
+  };
+  await getSessionStore(env, launch.sessionId).recordRef(resolved);
+  return { ...launch, ...resolved };
+}
+
+// Which of the given names are branches or tags on the remote, or null when it cannot be listed
+async function listRemoteRefs(git: Sandbox | ExecutionSession, repoUrl: string, names: string[]): Promise<Set<string> | null> {
+  // Patterns match whole trailing path components, so the exact names are picked out of what is listed
+  const result = await git.exec(
+    `git ls-remote --heads --tags '${repoUrl}' ${names.map((name) => `'${name}'`).join(' ')}`,
+    { timeout: 60000 }
+  );
+  if (!result.success) {
+    return null;
+  }
+  const listed = new Set(result.stdout.split('\n').map((line) => line.split('\t')[1]?.replace(/^refs\/(heads|tags)\//, '')));
+  return new Set(names.filter((name) => listed.has(name)));
+}
+
+async function checkoutRepo(
+  git: Sandbox | ExecutionSession,
+  repoUrl: string,
+  ref?: RepoRef,
+  subdirectory?: string
+): Promise<void> {
+  // Clone the repository using the SDK's gitCheckout method (safer than shell exec), which cannot clone
+  // sparsely. Branches and tags can be cloned directly; commits and pull requests are fetched afterwards.
+  if (subdirectory) {
+    await sparseCheckout(git, repoUrl, subdirectory, ref);
+  } else {
+    await git.gitCheckout(repoUrl, {
+      targetDir: REPO_DIR,
+      depth: 1,
+      branch: ref?.type === 'branch' ? ref.name : undefined,
+    });
+  }
+
+  if (ref && ref.type !== 'branch') {
+    await checkoutDetachedRef(git, repoUrl, ref);
+  }
+  if (subdirectory) {
+    const result = await git.exec(`test -d '${agentWorkDir(subdirectory)}'`, { timeout: 10000 });
+    if (!result.success) {
+      throw new Error(`${subdirectory} is not a directory in ${ref ? formatRef(ref) : 'the default branch'}`);
+    }
+  }
+}
+
+/**
+ * Clone only what a monorepo subdirectory needs: a blobless partial clone in cone mode
+ * checks out the subdirectory and the files at the repository root, and fetches the
+ * contents of nothing else. The URL and path were validated, and are quoted besides.
+ */
+async function sparseCheckout(
+  git: Sandbox | ExecutionSession,
+  repoUrl: string,
+  subdirectory: string,
+  ref?: RepoRef
+): Promise<void> {
+  const branch = ref?.type === 'branch' ? ` --branch '${ref.name}'` : '';
+  const result = await git.exec(
+    `git clone --depth 1 --filter=blob:none --sparse${branch} '${repoUrl}' ${REPO_DIR} && cd ${REPO_DIR} && git sparse-checkout set -- '${subdirectory}'`,
+    { timeout: 300000 }
+  );
+  if (!result.success) {
+    throw new Error(`Failed to clone ${subdirectory}: ${result.stderr.trim()}`);
+  }
+}
+
+async function checkoutDetachedRef(git: Sandbox | ExecutionSession, repoUrl: string, ref: RepoRef): Promise<void> {
+  // Ref names are validated against a strict allowlist in parseRepoRef, so they are safe to interpolate.
+  // Hosts publish pull requests under their own refs; only hosts that do produce pull refs from their URLs
+  const pullRefspec = gitHostForCloneUrl(repoUrl)?.pullRefspec;
+  const refspec = ref.type === 'pull' && pullRefspec ? pullRefspec(ref.name) : ref.name;
+  // Remotes only serve full SHAs, so an abbreviated one is looked up in the history of every branch and tag
+  const checkout = ref.type === 'commit' && !FULL_COMMIT_SHA_REGEX.test(ref.name)
+    ? `git fetch --quiet --unshallow --tags origin '+refs/heads/*:refs/remotes/origin/*' && commit=$(git rev-parse --verify --quiet '${ref.name}^{commit}') && git checkout --detach "$commit"`
+    : `git fetch --depth 1 origin ${refspec} && git checkout --detach FETCH_HEAD`;
+  const result = await git.exec(`cd ${REPO_DIR} && ${checkout}`, { timeout: 300000 });
+  if (!result.success) {
+    throw new Error(`Failed to check out ${formatRef(ref)}: ${result.stderr.trim() || 'no commit with that SHA on any branch or tag'}`);
+  }
+}
+
+async function updateSessionStatus(
+  env: Env,
+  sessionId: string,
+  status: SessionStatus,
+  error?: string,
+  logTail?: string[]
+): Promise<void> {
+  await getSessionStore(env, sessionId).transition(status, { error, logTail });
+}
+
+async function handleStatus(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  const info = await getSessionStore(env, sessionId).getSession();
+
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  // Other visitors get a read-only view without the preview URL or owner details
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({
+      id: info.id,
+      repo: info.repo,
+      ref: info.ref,
+      agent: info.agent,
+      model: info.model,
+      status: info.status,
+      readOnly: true,
+    });
+  }
+
+  return Response.json(ownerView(info));
+}
+
+// Session info as returned to its owner, who does not need their own owner ID
+function ownerView(info: SessionInfo) {
+  const { owner: _owner, previewUrl, ...rest } = info;
+  return { ...rest, previewUrl: previewUrl ?? null };
+}
+
+async function handleListSessions(request: Request, env: Env, url: URL): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!visitor) {
+    return Response.json({ sessions: [] });
+  }
+
+  const sessions = await loadSessions(env, await getSessionRegistry(env).listSessions(visitor.ownerId));
+  return Response.json({ sessions: sessions.map(ownerView) });
+}
+
+async function handleStopSession(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  url: URL,
+  sessionId: string
+): Promise<Response> {
+  if (request.method !== 'DELETE') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const info = await getSessionStore(env, sessionId).getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can stop it' }, { status: 403 });
+  }
+
+  try {
+    const stopped = await stopSession(env, sessionId, 'user');
+    await admitQueuedSessions(env, ctx);
+    return Response.json(ownerView(stopped));
+  } catch (e) {
+    // The session is already marked stopped; the reaper retries the teardown
+    console.error('Failed to tear down sandbox:', e);
+    return Response.json({ error: 'Session stopped, but its sandbox could not be torn down yet' }, { status: 502 });
+  }
+}
+
+async function handleExtendSession(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  // A form on another site can POST here without a preflight, carrying the owner's cookies
+  if (isCrossOriginRequest(request, url)) {
+    return Response.json({ error: 'Cross-origin requests are not allowed' }, { status: 403 });
+  }
+
+  const store = getSessionStore(env, sessionId);
+  const info = await store.getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can extend it' }, { status: 403 });
+  }
+  if (info.status === 'stopped' || info.expiresAt <= Date.now()) {
+    return Response.json({ error: 'Session has ended' }, { status: 409 });
+  }
+  if (info.expiresAt >= info.createdAt + MAX_SESSION_LIFETIME_MS) {
+    return Response.json(
+      { error: `Session has reached its maximum lifetime of ${MAX_SESSION_LIFETIME_MS / 3600000} hours` },
+      { status: 409 }
+    );
+  }
+
+  return Response.json(ownerView(await store.extendSession()));
+}
+
+async function handleCreateSnapshot(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  // Only the session page may take snapshots; cross-site POSTs would otherwise carry the owner's cookies
+  if (isCrossOriginRequest(request, url)) {
+    return Response.json({ error: 'Cross-origin requests are not allowed' }, { status: 403 });
+  }
+
+  const info = await getSessionStore(env, sessionId).getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can snapshot it' }, { status: 403 });
+  }
+  if (info.status !== 'running' || !info.agent) {
+    return Response.json({ error: 'Session is not running' }, { status: 409 });
+  }
+
+  try {
+    const sandbox = getSandbox(env.SANDBOX, sessionId);
+    const snapshot = await createSnapshot(env, sandbox, info, REPO_DIR, 'manual', AGENT_BACKENDS[info.agent].workspaceFiles);
+    if (!snapshot) {
+      return Response.json({ error: 'Nothing to snapshot, the workspace has no changes' }, { status: 409 });
+    }
+    return Response.json(snapshot, { status: 201 });
+  } catch (e) {
+    console.error('Failed to create snapshot:', e);
+    return Response.json({ error: e instanceof Error ? e.message : 'Failed to create snapshot' }, { status: 500 });
+  }
+}
+
+const EXPORT_FORMATS = ['patch', 'bundle'];
+
+async function handleExportSession(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const info = await getSessionStore(env, sessionId).getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can export its changes' }, { status: 403 });
+  }
+  if (info.status !== 'running' || !info.agent) {
+    return Response.json({ error: 'Session is not running' }, { status: 409 });
+  }
+
+  const format = url.searchParams.get('format') ?? 'patch';
+  if (!EXPORT_FORMATS.includes(format)) {
+    return Response.json({ error: `Unknown export format: ${format}. Use one of: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  const sandbox = getSandbox(env.SANDBOX, sessionId);
+  const exclude = AGENT_BACKENDS[info.agent].workspaceFiles;
+  const filename = `${info.repo.split('/')[1]}-${sessionId.slice(0, 8)}.${format}`;
+  try {
+    if (format === 'patch') {
+      const changes = await readChanges(sandbox, info, REPO_DIR, exclude);
+      if (!changes) {
+        return Response.json({ error: 'Nothing to export, the workspace has no changes' }, { status: 409 });
+      }
+      return new Response(changes.patch, {
+        headers: {
+          'Content-Type': 'text/x-diff; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const commit = await commitChanges(sandbox, info, REPO_DIR, exclude, exportCommitMessage(info), await getAuthUser(request, env));
+    if (!commit) {
+      return Response.json({ error: 'Nothing to export, the workspace has no changes' }, { status: 409 });
+    }
+    return new Response(await createBundle(sandbox, info, REPO_DIR), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (e) {
+    console.error('Failed to export session changes:', e);
+    return Response.json({ error: e instanceof Error ? e.message : 'Failed to export changes' }, { status: 500 });
+  }
+}
+
+/**
+ * Push the session's changes and open a pull request against the launched repository.
+ * Changes go to a branch of the upstream repository when the user can push there,
+ * otherwise to their fork. Once a pull request exists, posting again pushes the
+ * latest changes to its branch instead of opening another one.
+ */
+async function handlePullRequest(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  // Opening a pull request acts on GitHub as the owner, so it must come from the session page itself
+  if (isCrossOriginRequest(request, url)) {
+    return Response.json({ error: 'Cross-origin requests are not allowed' }, { status: 403 });
+  }
+
+  const store = getSessionStore(env, sessionId);
+  const info = await store.getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can open a pull request' }, { status: 403 });
+  }
+  if (repoHostname(info.repo) !== 'github.com') {
+    return Response.json({ error: 'Pull requests can only be opened for GitHub repositories' }, { status: 409 });
+  }
+  // Anonymous owners have no GitHub account to push with
+  const user = await getAuthUser(request, env);
+  if (!user || info.owner !== `github:${user.id}`) {
+    return Response.json(
+      { error: 'Sign in with GitHub to open a pull request', loginUrl: loginUrl(`/session/${sessionId}`) },
+      { status: 401 }
+    );
+  }
+  if (info.status !== 'running' || !info.agent) {
+    return Response.json({ error: 'Session is not running' }, { status: 409 });
+  }
+
+  let requested: { title?: unknown; body?: unknown } = {};
+  if (request.headers.get('Content-Type')?.includes('application/json')) {
+    try {
+      requested = await request.json();
+    } catch {
+      return Response.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+  }
+  if ((requested.title !== undefined && typeof requested.title !== 'string') ||
+      (requested.body !== undefined && typeof requested.body !== 'string')) {
+    return Response.json({ error: 'title and body must be strings' }, { status: 400 });
+  }
+
+  const sandbox = getSandbox(env.SANDBOX, sessionId);
+  const exclude = AGENT_BACKENDS[info.agent].workspaceFiles;
+  try {
+    const opened = await openPullRequest(env, sandbox, info, REPO_DIR, exclude, user, {
+      title: requested.title,
+      body: requested.body,
+    });
+    if (!opened) {
+      return Response.json({ error: 'Nothing to export, the workspace has no changes' }, { status: 409 });
+    }
+    if (!opened.created) {
+      return Response.json(opened.pullRequest);
+    }
+    const recorded = await store.recordPullRequest(opened.pullRequest);
+    return Response.json(recorded.pullRequest, { status: 201 });
+  } catch (e) {
+    console.error('Failed to open pull request:', e);
+    return Response.json(
+      { error: e instanceof Error ? e.message : 'Failed to open pull request' },
+      { status: e instanceof ProtectedBranchError ? 409 : e instanceof GitHubApiError ? 502 : 500 }
+    );
+  }
+}
+
+async function handleTasks(request: Request, env: Env, ctx: ExecutionContext, url: URL): Promise<Response> {
+  if (request.method === 'GET') {
+    const visitor = await getVisitor(request, env, url);
+    const sessions = visitor ? await getSessionRegistry(env).listSessions(visitor.ownerId) : [];
+    return Response.json({ tasks: (await loadSessions(env, sessions.filter((session) => session.task))).map(taskView) });
+  }
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  const receivedAt = Date.now();
+
+  let body: { repo?: unknown; ref?: unknown; prompt?: unknown; agent?: unknown; model?: unknown; secrets?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  // Accept "owner/name" on GitHub as well as a repository URL on any host, with or without https://
+  if (typeof body.repo !== 'string') {
+    return Response.json({ error: 'repo is required, e.g. "owner/name"' }, { status: 400 });
+  }
+  const segments = body.repo.replace(/^https:\/\//, '').split('/').filter(Boolean);
+  const { repo, refSegments, error: repoError } = parseRepoLocation(
+    segments[0]?.includes('.') ? segments : ['github.com', ...segments]
+  );
+  if (!repo) {
+    return Response.json({ error: repoError }, { status: 400 });
+  }
+  if (refSegments?.length) {
+    return Response.json({ error: 'repo must be "owner/name" or a repository URL, pass the branch as ref' }, { status: 400 });
+  }
+  const blocked = checkRepoAllowed(env, repo.fullName);
+  if (blocked) {
+    return Response.json({ error: blocked }, { status: 403 });
+  }
+
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) {
+    return Response.json({ error: 'prompt is required' }, { status: 400 });
+  }
+  if (body.prompt.length > MAX_PROMPT_LENGTH) {
+    return Response.json({ error: `prompt must be at most ${MAX_PROMPT_LENGTH} characters` }, { status: 400 });
+  }
+
+  // A branch or tag to run against instead of the default branch
+  if (body.ref !== undefined && (typeof body.ref !== 'string' || !isValidGitRef(body.ref))) {
+    return Response.json({ error: 'Invalid ref' }, { status: 400 });
+  }
+  const ref: RepoRef | undefined = body.ref ? { type: 'branch', name: body.ref } : undefined;
+
+  if ((body.agent !== undefined && typeof body.agent !== 'string') ||
+      (body.model !== undefined && typeof body.model !== 'string')) {
+    return Response.json({ error: 'agent and model must be strings' }, { status: 400 });
+  }
+  const { agent, model, error: choicesError } = parseLaunchChoices(env, body.agent ?? null, body.model ?? null);
+  if (choicesError) {
+    return Response.json({ error: choicesError }, { status: 400 });
+  }
+
+  const user = await getAuthUser(request, env);
+  const isGitHub = repo.host.id === 'github';
+  const repoCheck = await repo.host.checkAccess(env, repo.hostname, repo.path, isGitHub ? user?.token : undefined);
+  if (!repoCheck.accessible) {
+    return Response.json(
+      { error: repoCheck.error, ...(user || !isGitHub ? {} : { loginUrl: loginUrl('/') }) },
+      { status: repoCheck.unverified ? 503 : 400 }
+    );
+  }
+
+  const repoFullName = repo.fullName;
+  const repoUrl = repo.cloneUrl;
+  const visitor = (await getVisitor(request, env, url, true))!;
+
+  if (body.secrets !== undefined && (!Array.isArray(body.secrets) || !body.secrets.every((name) => typeof name === 'string'))) {
+    return Response.json({ error: 'secrets must be an array of secret names' }, { status: 400 });
+  }
+  const { names: secrets, error: secretsError } = await checkSecretNames(env, visitor.ownerId, body.secrets ?? []);
+  if (secretsError) {
+    return Response.json({ error: secretsError }, { status: 400 });
+  }
+
+  const limit = await checkLaunchLimits(env, request, visitor.ownerId);
+  if (limit) {
+    return rateLimitedResponse(request, limit);
+  }
+
+  // Every task gets a session of its own, never shared with interactive launches
+  const session = await getSessionRegistry(env).createSession({
+    repo: repoFullName,
+    repoUrl,
+    ref,
+    private: repoCheck.private ?? false,
+    owner: visitor.ownerId,
+    agent,
+    model: model?.id,
+    secrets,
+    task: {},
+  }, {
+    repoUrl,
+    hostname: url.host,
+    ref,
+    agent,
+    model: model?.id,
+    secrets,
+    gitToken: repoCheck.private ? user?.token : undefined,
+    prompt: body.prompt,
+  }, schedulerLimits(env));
+  await recordAudit(env, session.id, {
+    type: 'launch',
+    success: true,
+    durationMs: Date.now() - receivedAt,
+    detail: `task${ref ? `@${ref.type}:${ref.name}` : ''}`,
+  });
+  await admitQueuedSessions(env, ctx);
+  rebalanceWarmPool(env, ctx);
+
+  const headers = new Headers({ Location: `/api/tasks/${session.id}` });
+  if (visitor.setCookie) {
+    headers.append('Set-Cookie', visitor.setCookie);
+  }
+  // Read back after admission so the response tells whether the task is waiting in line
+  return Response.json(taskView((await getSessionStore(env, session.id).getSession()) ?? session), { status: 202, headers });
+}
+
+// Look up a task for its owner; tasks of other visitors are reported as missing
+async function getOwnTask(request: Request, env: Env, url: URL, taskId: string): Promise<SessionInfo | null> {
+  const info = await getSessionStore(env, taskId).getSession();
+  const visitor = await getVisitor(request, env, url);
+  return info?.task && isSessionOwner(info, visitor) ? info : null;
+}
+
+async function handleTask(request: Request, env: Env, ctx: ExecutionContext, url: URL, taskId: string): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'DELETE') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const info = await getOwnTask(request, env, url, taskId);
+  if (!info) {
+    return Response.json({ error: 'Task not found' }, { status: 404 });
+  }
+
+  if (request.method === 'GET') {
+    // The cron also finishes tasks, but checking here reports completion without waiting for it
+    const current = await finishTask(env, info);
+    if (current.destroyedAt && !info.destroyedAt) {
+      await admitQueuedSessions(env, ctx);
+    }
+    return Response.json(taskView(current));
+  }
+
+  try {
+    const stopped = await stopSession(env, taskId, 'user');
+    await admitQueuedSessions(env, ctx);
+    return Response.json(taskView(stopped));
+  } catch (e) {
+    // The task is already marked stopped; the reaper retries the teardown
+    console.error('Failed to tear down task sandbox:', e);
+    return Response.json({ error: 'Task cancelled, but its sandbox could not be torn down yet' }, { status: 502 });
+  }
+}
+
+// Output and diff are read from the sandbox while the agent runs and from R2 once the task has ended
+async function handleTaskResult(
+  request: Request,
+  env: Env,
+  url: URL,
+  taskId: string,
+  result: 'logs' | 'diff'
+): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const info = await getOwnTask(request, env, url, taskId);
+  if (!info) {
+    return Response.json({ error: 'Task not found' }, { status: 404 });
+  }
+
+  let content = await getTaskResult(env, info, result === 'logs' ? 'output.log' : 'changes.patch');
+  if (content === null && info.status === 'running' && info.agent) {
+    const sandbox = getSandbox(env.SANDBOX, taskId);
+    content = result === 'logs'
+      ? await readTaskLog(sandbox)
+      : (await readChanges(sandbox, info, REPO_DIR, AGENT_BACKENDS[info.agent].workspaceFiles))?.patch ?? '';
+  }
+
+  return new Response(content ?? '', {
+    headers: { 'Content-Type': result === 'logs' ? 'text/plain; charset=utf-8' : 'text/x-diff; charset=utf-8' },
+  });
+}
+
+async function handleListSnapshots(request: Request, env: Env, url: URL): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!visitor) {
+    return Response.json({ snapshots: [] });
+  }
+
+  // ?repo=owner/name narrows the list to one repository
+  const snapshots = await listSnapshots(env, visitor.ownerId, url.searchParams.get('repo') ?? undefined);
+  return Response.json({ snapshots });
+}
+
+async function handleDeleteSnapshot(request: Request, env: Env, url: URL, snapshotId: string): Promise<Response> {
+  if (request.method !== 'DELETE') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  // Snapshots are stored under their owner, so other visitors simply do not find them
+  const visitor = await getVisitor(request, env, url);
+  const snapshot = visitor ? await getSnapshot(env, visitor.ownerId, snapshotId) : null;
+  if (!visitor || !snapshot) {
+    return Response.json({ error: 'Snapshot not found' }, { status: 404 });
+  }
+
+  await deleteSnapshot(env, visitor.ownerId, snapshotId);
+  return new Response(null, { status: 204 });
+}
+
+async function handleListSecrets(request: Request, env: Env, url: URL): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  if (!isSecretsConfigured(env)) {
+    return Response.json({ error: 'Secrets are not enabled on this deployment' }, { status: 404 });
+  }
+
+  // Only names are listed; values never leave the worker except into a sandbox
+  const visitor = await getVisitor(request, env, url);
+  return Response.json({ secrets: visitor ? await listSecrets(env, visitor.ownerId) : [] });
+}
+
+async function handleSecret(request: Request, env: Env, url: URL, name: string): Promise<Response> {
+  if (request.method !== 'PUT' && request.method !== 'DELETE') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  if (!isSecretsConfigured(env)) {
+    return Response.json({ error: 'Secrets are not enabled on this deployment' }, { status: 404 });
+  }
+
+  if (request.method === 'DELETE') {
+    const visitor = await getVisitor(request, env, url);
+    if (!visitor || !(await deleteSecret(env, visitor.ownerId, name))) {
+      return Response.json({ error: 'Secret not found' }, { status: 404 });
+    }
+    return new Response(null, { status: 204 });
+  }
+
+  const body = await request.json<{ value?: unknown }>().catch(() => null);
+  const value = body?.value;
+  if (typeof value !== 'string' || !value || value.length > SECRET_VALUE_MAX_LENGTH || value.includes('\0')) {
+    return Response.json(
+      { error: `Expected a JSON body of the form { "value": "..." } of at most ${SECRET_VALUE_MAX_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const visitor = (await getVisitor(request, env, url, true))!;
+  if (!(await putSecret(env, visitor.ownerId, name, value))) {
+    return Response.json({ error: `You can store at most ${MAX_SECRETS} secrets` }, { status: 409 });
+  }
+  const headers = new Headers();
+  if (visitor.setCookie) {
+    headers.append('Set-Cookie', visitor.setCookie);
+  }
+  return new Response(null, { status: 204, headers });
+}
+
+async function handleSessionSecrets(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const store = getSessionStore(env, sessionId);
+  const info = await store.getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can inject secrets' }, { status: 403 });
+  }
+  if (info.task) {
+    return Response.json({ error: 'Secrets for a task are chosen when it is created' }, { status: 409 });
+  }
+  if (info.status !== 'running') {
+    return Response.json({ error: 'Session is not running yet' }, { status: 409 });
+  }
+
+  const body = await request.json<{ names?: unknown }>().catch(() => null);
+  const requested = body?.names;
+  if (!Array.isArray(requested) || !requested.every((name) => typeof name === 'string')) {
+    return Response.json({ error: 'Expected a JSON body of the form { "names": ["NAME"] }' }, { status: 400 });
+  }
+  const { names, error } = await checkSecretNames(env, info.owner, requested);
+  if (error || !names) {
+    return Response.json({ error: error ?? 'No secrets chosen' }, { status: 400 });
+  }
+
+  // New commands see the values through the sandbox environment; the running agent is restarted with them
+  const sandbox = getSandbox(env.SANDBOX, sessionId);
+  const values = await readSecrets(env, info.owner, names);
+  await sandbox.setEnvVars(values);
+  await setAgentEnv(sandbox, values);
+  const updated = await store.recordSecrets(names);
+
+  return Response.json({ secrets: updated.secrets });
+}
+
+async function handleSessionEvents(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  const store = getSessionStore(env, sessionId);
+  const info = await store.getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  // Progress and logs are only streamed to the owner; read-only viewers poll /api/status
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can stream its events' }, { status: 403 });
+  }
+
+  const lastEventId = Number(request.headers.get('Last-Event-ID') ?? 0) || 0;
+  const stream = await store.subscribe(lastEventId);
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+const ENV_VALUE_MAX_LENGTH = 4096;
+
+async function handleSessionEnv(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const store = getSessionStore(env, sessionId);
+  const info = await store.getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can set its environment' }, { status: 403 });
+  }
+  if (info.status !== 'running') {
+    return Response.json({ error: 'Session is not running yet' }, { status: 409 });
+  }
+
+  const body = await request.json<{ values?: unknown }>().catch(() => null);
+  const values = body?.values;
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    return Response.json({ error: 'Expected a JSON body of the form { "values": { "NAME": "value" } }' }, { status: 400 });
+  }
+
+  // Only the names declared by the repo config may be set
+  const allowed = new Set(info.requiredEnv ?? []);
+  const entries = Object.entries(values as Record<string, unknown>).filter(([, value]) => value !== '');
+  for (const [name, value] of entries) {
+    if (!allowed.has(name)) {
+      return Response.json({ error: `Unknown environment variable: ${name}` }, { status: 400 });
+    }
+    if (typeof value !== 'string' || value.length > ENV_VALUE_MAX_LENGTH || value.includes('\0')) {
+      return Response.json({ error: `Invalid value for ${name}` }, { status: 400 });
+    }
+  }
+  if (entries.length === 0) {
+    return Response.json({ error: 'No values provided' }, { status: 400 });
+  }
+
+  await setAgentEnv(getSandbox(env.SANDBOX, sessionId), Object.fromEntries(entries) as Record<string, string>);
+  const updated = await store.recordProvidedEnv(entries.map(([name]) => name));
+
+  // Values are never echoed back, only which names have been provided
+  return Response.json({ providedEnv: updated.providedEnv });
+}
+
+async function handleOpenSession(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  const info = await getSessionStore(env, sessionId).getSession();
+  if (!info) {
+    return new Response('Session not found', { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return new Response('Only the owner of this session can open it', { status: 403 });
+  }
+  if (info.status === 'stopped') {
+    return new Response('Session has ended', { status: 409 });
+  }
+
+  // ?port= opens one of the repo's own previews instead of the agent
+  const port = url.searchParams.get('port');
+  const previewUrl = port
+    ? info.previews?.find((preview) => String(preview.port) === port)?.url
+    : info.previewUrl;
+  if (!previewUrl) {
+    return new Response(port ? 'Preview not found' : 'The agent is not ready yet', { status: port ? 404 : 409 });
+  }
+
+  return new Response(null, {
+    status: 302,
+    headers: { Location: await createPreviewAccessUrl(env, sessionId, previewUrl) },
+  });
+}
+
+async function handleSessionPreviews(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const info = await getSessionStore(env, sessionId).getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can see its previews' }, { status: 403 });
+  }
+
+  try {
+    return Response.json({ previews: await syncPreviews(env, info) });
+  } catch (e) {
+    // An asleep sandbox cannot be asked for its ports; the previews already known are still listed
+    console.error(`Failed to sync previews of session ${sessionId}:`, e);
+    return Response.json({ previews: info.previews ?? [] });
+  }
+}
+
+const AUDIT_EVENT_TYPES: AuditEventType[] = ['launch', 'clone', 'setup', 'start', 'expose', 'command', 'error', 'teardown'];
+
+// Open to the session owner and to operators; ?type= narrows the log to one kind of event
+async function handleSessionAudit(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const store = getSessionStore(env, sessionId);
+  const info = await store.getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor) && !(await isAdminRequest(request, env))) {
+    return Response.json({ error: 'Only the owner of this session can read its audit log' }, { status: 403 });
+  }
+
+  const type = url.searchParams.get('type');
+  if (type !== null && !AUDIT_EVENT_TYPES.includes(type as AuditEventType)) {
+    return Response.json({ error: `type must be one of: ${AUDIT_EVENT_TYPES.join(', ')}` }, { status: 400 });
+  }
+
+  // Pick up the agent's latest commands rather than waiting for the cron
+  if (info.status === 'running') {
+    try {
+      await collectAgentCommands(env, sessionId);
+    } catch (e) {
+      console.error(`Failed to collect agent commands of session ${sessionId}:`, e);
+    }
+  }
+  const events = await store.getAuditLog();
+  return Response.json({ events: type ? events.filter((event) => event.type === type) : events });
+}
+
+async function handleMetrics(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  if (!(await isAdminRequest(request, env))) {
+    return adminRequiredResponse();
+  }
+
+  const { totals, gauges } = await getSessionRegistry(env).getMetrics();
+  return new Response(renderMetrics(totals, gauges), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+  });
+}
+
+async function handleAdminPage(request: Request, env: Env, url: URL): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  if (!(await isAdminRequest(request, env))) {
+    return new Response(renderAdminLoginPage(env, url.searchParams.has('invalid')), {
+      status: 401,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  }
+
+  const registry = getSessionRegistry(env);
+  const [sessions, errors, { gauges }] = await Promise.all([
+    registry.listActiveSessions().then((summaries) => loadSessions(env, summaries)),
+    registry.listRecentErrors(),
+    registry.getMetrics(),
+  ]);
+  return new Response(renderAdminPage(env, sessions, errors, gauges), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+async function handleAdminLogin(request: Request, env: Env, url: URL): Promise<Response> {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const token = (await request.formData()).get('token');
+  if (typeof token !== 'string' || !isValidAdminToken(env, token)) {
+    return new Response(null, { status: 303, headers: { Location: '/admin?invalid' } });
+  }
+  const cookie = await createAdminCookie(env, url);
+  if (!cookie) {
+    const message = 'Set SESSION_SECRET to sign in with the admin token from a browser.';
+    return new Response(renderNoticePage('Admin sign-in unavailable', message), {
+      status: 501,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  }
+  return new Response(null, { status: 303, headers: { Location: '/admin', 'Set-Cookie': cookie } });
+}
+
+type AdminSessionAction = 'stop' | 'release';
+
+async function handleAdminSessionAction(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  sessionId: string,
+  action: AdminSessionAction
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  if (!(await isAdminRequest(request, env))) {
+    return adminRequiredResponse();
+  }
+
+  const store = getSessionStore(env, sessionId);
+  if (!(await store.getSession())) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  if (action === 'release') {
+    if (!(await store.releaseSessionKey())) {
+      return Response.json({ error: 'Session does not hold its launch key' }, { status: 409 });
+    }
+    return Response.json({ released: true });
+  }
+
+  // Stopping an already stopped session retries its teardown
+  try {
+    const stopped = await stopSession(env, sessionId, 'admin');
+    await admitQueuedSessions(env, ctx);
+    return Response.json(stopped);
+  } catch (e) {
+    console.error('Failed to tear down sandbox:', e);
+    return Response.json({ error: 'Session stopped, but its sandbox could not be torn down yet' }, { status: 502 });
+  }
+}
+
+async function handleSessionTerminal(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  url: URL,
+  sessionId: string
+): Promise<Response> {
+  if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+    return Response.json({ error: 'Expected a WebSocket upgrade' }, { status: 426 });
+  }
+  // WebSockets are not bound by CORS, so another site could otherwise open a shell with the owner's cookies
+  if (isCrossOriginRequest(request, url)) {
+    return Response.json({ error: 'Cross-origin terminal connections are not allowed' }, { status: 403 });
+  }
+
+  const info = await getSessionStore(env, sessionId).getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can open a terminal' }, { status: 403 });
+  }
+  if (info.status === 'queued' || info.status === 'stopped') {
+    return Response.json({ error: `Session is ${info.status}` }, { status: 409 });
+  }
+
+  // Typing in the terminal counts as activity, like using the agent does
+  ctx.waitUntil(recordActivity(env, sessionId));
+  const sandbox = getSandbox(env.SANDBOX, sessionId);
+  try {
+    // What is typed in the terminal is not audited, only that it was opened
+    await auditPhase(env, sessionId, 'command', 'terminal', () => ensureTerminal(sandbox, agentWorkDir(info.subdirectory)));
+    return await connectTerminal(sandbox, request);
+  } catch (e) {
+    console.error(`Failed to open terminal for session ${sessionId}:`, e);
+    return Response.json({ error: e instanceof Error ? e.message : 'Failed to open terminal' }, { status: 500 });
+  }
+}
+
+async function handleSessionFiles(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  url: URL,
+  sessionId: string
+): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const info = await getSessionStore(env, sessionId).getSession();
+  if (!info) {
+    return Response.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  if (!isSessionOwner(info, visitor)) {
+    return Response.json({ error: 'Only the owner of this session can browse its files' }, { status: 403 });
+  }
+  if (info.status === 'queued' || info.status === 'stopped') {
+    return Response.json({ error: `Session is ${info.status}` }, { status: 409 });
+  }
+
+  ctx.waitUntil(recordActivity(env, sessionId));
+  try {
+    return Response.json(await viewFile(getSandbox(env.SANDBOX, sessionId), url.searchParams.get('path') ?? ''));
+  } catch (e) {
+    if (e instanceof FileBrowserError) {
+      return Response.json({ error: e.message }, { status: e.status });
+    }
+    console.error(`Failed to read files of session ${sessionId}:`, e);
+    return Response.json({ error: e instanceof Error ? e.message : 'Failed to read files' }, { status: 500 });
+  }
+}
+
+// The session page's terminal is loaded from a CDN only when it is opened, pinned to the files' hashes
+const XTERM_CDN_URL = 'https://cdn.jsdelivr.net/npm/@xterm/xterm@5.5.0';
+const XTERM_FIT_CDN_URL = 'https://cdn.jsdelivr.net/npm/@xterm/addon-fit@0.10.0';
+const XTERM_CSS_INTEGRITY = 'sha384-8Xk9wy/gzEDUKrXtrmCFa2bBuK3BpjpDuL/p0SeKQX19Khl/M+lHOgD/CyYf7efP';
+const XTERM_JS_INTEGRITY = 'sha384-M169f14mRZOXm3hD/v2Ti0ThIT/RnAQagXA9nlE15yHAtrW19gdePJh/HaTzUOe/';
+const XTERM_FIT_JS_INTEGRITY = 'sha384-iF+jqbuti4XlB64clWgFWYEscb+UnSRv3VgVikGYZu+otNFnSHr7y7NcKfBnGizn';
+
+async function handleSessionPage(request: Request, env: Env, url: URL, sessionId: string): Promise<Response> {
+  const info = await getSessionStore(env, sessionId).getSession();
+
+  if (!info) {
+    return new Response('Session not found', { status: 404 });
+  }
+
+  const visitor = await getVisitor(request, env, url);
+  const readOnly = !isSessionOwner(info, visitor);
+  const previewUrl = readOnly ? null : info.previewUrl;
+  const openUrl = `/session/${sessionId}/open`;
+  const ref = info.ref;
+  // The agent is only known once the repo config has been read, unless it was requested at launch
+  const agentName = info.agent ? AGENT_BACKENDS[info.agent].name : 'agent';
+  const agentNames = Object.fromEntries(Object.values(AGENT_BACKENDS).map((backend) => [backend.id, backend.name]));
+  const modelName = info.model ? getModel(info.model)?.name ?? info.model : null;
+  const modelNames = Object.fromEntries(MODELS.map((model) => [model.id, model.name]));
+  const snapshots = readOnly ? [] : await listSnapshots(env, info.owner, info.repo);
+  const secrets = !readOnly && !info.task && info.status === 'running' && isSecretsConfigured(env)
+    ? (await listSecrets(env, info.owner)).map((secret) => secret.name)
+    : [];
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${info.repo} - cloudx.sh</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #0a0a0a;
+      color: #fff;
+      min-height: 100vh;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      padding: 2rem;
+    }
+    .container { max-width: 600px; text-align: center; }
+    h1 { font-size: 2rem; margin-bottom: 1rem; color: #f97316; }
+    .ref { color: #a0a0a0; margin-bottom: 1rem; }
+    .ref code { color: #fcd34d; }
+    .status {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.5rem 1rem;
+      background: #1a1a1a;
+      border-radius: 2rem;
+      margin-bottom: 2rem;
+    }
+    .status-dot {
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+      animation: pulse 2s infinite;
+    }
+    .status-dot.queued { background: #3b82f6; }
+    .status-dot.initializing, .status-dot.cloning, .status-dot.installing, .status-dot.starting { background: #eab308; }
+    .status-dot.running { background: #22c55e; }
+    .status-dot.error { background: #ef4444; }
+    .status-dot.stopped { background: #666; }
+    @keyframes pulse { 0%, 100% { opacity: 1; } 50% { opacity: 0.5; } }
+    .preview-link {
+      display: inline-block;
+      padding: 1rem 2rem;
+      background: #f97316;
+      color: #fff;
+      text-decoration: none;
+      border-radius: 0.5rem;
+      font-weight: 600;
+      margin-top: 1rem;
+    }
+    .preview-link:hover { background: #fb923c; }
+    .preview-link.disabled {
+      background: #333;
+      pointer-events: none;
+    }
+    .info { color: #888; margin-top: 2rem; font-size: 0.875rem; }
+    .read-only { color: #a0a0a0; margin-bottom: 1rem; }
+    .events, .log {
+      margin-top: 1.5rem;
+      padding: 1rem;
+      background: #141414;
+      border: 1px solid #222;
+      border-radius: 0.5rem;
+      text-align: left;
+      font-size: 0.75rem;
+      color: #a0a0a0;
+      white-space: pre-wrap;
+      max-height: 12rem;
+      overflow-y: auto;
+    }
+    .log { color: #d4d4d4; }
+    .setup { list-style: none; margin-top: 1.5rem; text-align: left; font-size: 0.875rem; }
+    .setup li { padding: 0.25rem 0; color: #22c55e; }
+    .setup li.failed { color: #ef4444; }
+    .setup code { color: #d4d4d4; }
+    .setup span { color: #666; }
+    .config-errors {
+      margin-top: 1.5rem;
+      padding: 1rem;
+      border: 1px solid #7f1d1d;
+      border-radius: 0.5rem;
+      background: #1c0a0a;
+      color: #fca5a5;
+      text-align: left;
+      font-size: 0.875rem;
+    }
+    .config-errors ul { margin: 0.5rem 0 0 1.25rem; }
+    .actions {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 0.75rem;
+      margin-top: 1.5rem;
+      color: #888;
+      font-size: 0.875rem;
+    }
+    .actions button {
+      padding: 0.375rem 0.75rem;
+      border: 1px solid #333;
+      border-radius: 0.25rem;
+      background: #1a1a1a;
+      color: #fff;
+      cursor: pointer;
+    }
+    .actions a, .ref a { color: #f97316; text-decoration: none; }
+    .snapshots { list-style: none; margin-top: 1.5rem; color: #a0a0a0; font-size: 0.875rem; }
+    .snapshots li { margin: 0.25rem 0; }
+    .snapshots a { color: #f97316; text-decoration: none; }
+    .snapshots span { color: #666; }
+    .previews { list-style: none; margin-top: 1.5rem; }
+    .previews li { margin: 0.25rem 0; }
+    .previews a { color: #f97316; text-decoration: none; }
+    .workspace { margin-top: 1.5rem; text-align: left; font-size: 0.875rem; }
+    .workspace summary { color: #a0a0a0; cursor: pointer; }
+    .terminal {
+      height: 20rem;
+      margin-top: 0.5rem;
+      padding: 0.5rem;
+      background: #000;
+      border: 1px solid #222;
+      border-radius: 0.5rem;
+    }
+    .file-tree { list-style: none; margin-top: 0.5rem; max-height: 16rem; overflow-y: auto; font-size: 0.75rem; }
+    .file-tree ul { list-style: none; padding-left: 1rem; }
+    .file-tree button {
+      border: none;
+      background: none;
+      color: #d4d4d4;
+      font-family: monospace;
+      cursor: pointer;
+    }
+    .file-path { margin-top: 0.5rem; color: #fcd34d; font-size: 0.75rem; }
+    .file-view { max-height: 24rem; margin-top: 0.5rem; }
+    .env-form {
+      margin-top: 1.5rem;
+      padding: 1rem;
+      background: #141414;
+      border: 1px solid #222;
+      border-radius: 0.5rem;
+      text-align: left;
+      font-size: 0.875rem;
+    }
+    .env-form label { display: block; margin-top: 0.5rem; color: #a0a0a0; }
+    .env-form input {
+      width: 100%;
+      padding: 0.5rem;
+      margin-top: 0.25rem;
+      border: 1px solid #333;
+      border-radius: 0.25rem;
+      background: #0a0a0a;
+      color: #fff;
+    }
+    .env-form input[type="checkbox"] { width: auto; margin: 0 0.5rem 0 0; }
+    .env-form button {
+      margin-top: 1rem;
+      padding: 0.5rem 1rem;
+      border: none;
+      border-radius: 0.25rem;
+      background: #f97316;
+      color: #fff;
+      font-weight: 600;
+      cursor: pointer;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${info.repo}</h1>
+    ${ref ? `<p class="ref">${ref.type === 'pull' ? 'Pull request' : ref.type === 'commit' ? 'Commit' : 'Branch'} <code>${formatRef(ref)}</code></p>` : ''}
+    ${info.subdirectory ? `<p class="ref">Scoped to <code>${info.subdirectory}</code></p>` : ''}
+    ${info.filePath ? `<p class="ref">Opening <code>${info.filePath}</code></p>` : ''}
+    ${info.pullRequest ? `<p class="ref">Pull request <a href="${info.pullRequest.url}" target="_blank">#${info.pullRequest.number}</a></p>` : ''}
+    ${info.restoredFrom ? `<p class="ref">Restored from snapshot <code>${info.restoredFrom.slice(0, 8)}</code></p>` : ''}
+    ${info.status !== 'queued' ? `<p class="ref">${formatLaunchStart(info)}</p>` : ''}
+    <div class="status">
+      <div class="status-dot ${info.status}"></div>
+      <span id="status-text">${formatStatus(info.status)}</span>
+    </div>
+
+    ${info.stopReason ? `<p class="ref">${STOP_REASONS[info.stopReason]}</p>` : ''}
+    <p id="queue-position" class="ref"${info.status === 'queued' && info.queuePosition ? '' : ' hidden'}>${formatQueuePosition(info.queuePosition)}</p>
+
+    ${readOnly
+      ? `<p class="read-only">This session belongs to someone else. You are seeing a read-only view.</p>
+    <a href="${repoLaunchPath(info.repo)}" class="preview-link">Launch your own session</a>`
+      : info.status === 'stopped'
+        ? `<a href="${repoLaunchPath(info.repo)}" class="preview-link">Launch again</a>`
+      : info.task
+        ? `<a href="/api/tasks/${sessionId}/logs" target="_blank" class="preview-link">View task output</a>`
+      : previewUrl
+        ? `<a href="${openUrl}" target="_blank" class="preview-link">Open in ${agentName}</a>`
+        : `<a class="preview-link disabled">Starting ${agentName}...</a>`
+    }
+
+    ${info.configErrors?.length ? renderConfigErrors(info.configFile!, info.configErrors) : ''}
+    ${!readOnly && !info.task && info.status !== 'stopped' ? renderPreviews(sessionId, info.previews ?? []) : ''}
+    ${!readOnly && info.requiredEnv?.length ? renderEnvForm(info.requiredEnv, [...info.providedEnv ?? [], ...info.secrets ?? []]) : ''}
+    ${!readOnly && (secrets.length || info.secrets?.length) ? renderSecretsForm(secrets, info.secrets ?? []) : ''}
+    ${!readOnly && info.setup?.length ? renderSetupSteps(info.setup) : ''}
+    ${!readOnly && info.status !== 'stopped' ? renderSessionActions(info) : ''}
+    ${!readOnly && info.status === 'running' ? renderExportActions(info) : ''}
+    ${!readOnly && info.status !== 'queued' && info.status !== 'stopped' ? renderWorkspacePanels() : ''}
+    ${snapshots.length ? renderSnapshots(info.repo, snapshots) : ''}
+
+    <pre id="events" class="events" hidden></pre>
+    <pre id="log" class="log"${!readOnly && info.logTail ? '' : ' hidden'}>${!readOnly && info.logTail ? escapeHtml(info.logTail.join('\n')) : ''}</pre>
+
+    <p class="info">
+      Session ID: ${sessionId.slice(0, 8)}...<br>
+      Agent: <span id="agent-name">${info.agent ? agentName : 'pending'}</span><br>
+      Model: <span id="model-name">${modelName ?? 'pending'}</span>${readOnly ? '' : `<br>
+      Model usage: ${formatUsage(info.usage, spendCaps(env).session)}`}
+    </p>
+  </div>
+
+  <script>
+    const sessionId = '${sessionId}';
+    const readOnly = ${readOnly};
+    const agentNames = ${JSON.stringify(agentNames)};
+    const modelNames = ${JSON.stringify(modelNames)};
+    function showStatus(status) {
+      document.getElementById('status-text').textContent = formatStatus(status);
+      document.querySelector('.status-dot').className = 'status-dot ' + status;
+      if (status !== 'queued') {
+        document.getElementById('queue-position').hidden = true;
+      }
+    }
+
+    function showQueuePosition(position) {
+      const el = document.getElementById('queue-position');
+      el.textContent = position === 1 ? 'Next in line for a sandbox' : 'Position ' + position + ' in line for a sandbox';
+      el.hidden = false;
+    }
+
+    // Consecutive updates of the same step (e.g. clone progress) replace each other
+    function showProgress(message) {
+      const el = document.getElementById('events');
+      const lines = el.textContent ? el.textContent.split('\\n') : [];
+      const step = message.split(':')[0];
+      if (lines.length && lines[lines.length - 1].split(':')[0] === step) {
+        lines[lines.length - 1] = message;
+      } else {
+        lines.push(message);
+      }
+      el.textContent = lines.join('\\n');
+      el.hidden = false;
+      el.scrollTop = el.scrollHeight;
+    }
+
+    function showLog(lines) {
+      const el = document.getElementById('log');
+      el.textContent = lines.join('\\n');
+      el.hidden = false;
+      el.scrollTop = el.scrollHeight;
+    }
+
+    async function checkStatus() {
+      try {
+        const res = await fetch('/api/status/' + sessionId);
+        const data = await res.json();
+        showStatus(data.status);
+        if (data.status === 'queued' && data.queuePosition) {
+          showQueuePosition(data.queuePosition);
+        }
+
+        const agentName = agentNames[data.agent];
+        if (agentName) {
+          document.getElementById('agent-name').textContent = agentName;
+        }
+        if (data.model) {
+          document.getElementById('model-name').textContent = modelNames[data.model] || data.model;
+        }
+
+        if (!readOnly && data.previewUrl && data.status === 'running') {
+          const link = document.querySelector('.preview-link');
+          link.href = '${openUrl}';
+          link.textContent = 'Open in ' + (agentName || 'agent');
+          link.classList.remove('disabled');
+        }
+
+        // Keep polling until the agent is reachable; the preview URL is stored just after 'running'
+        const ready = data.status === 'running' && (readOnly || data.previewUrl);
+        if (!ready && data.status !== 'error' && data.status !== 'stopped') {
+          setTimeout(checkStatus, 2000);
+        }
+      } catch (e) {
+        console.error('Status check failed:', e);
+        setTimeout(checkStatus, 3000);
+      }
+    }
+
+    // Dev servers the agent starts show up here, and drop out once they stop listening
+    const previewList = document.getElementById('previews');
+    async function checkPreviews() {
+      try {
+        const res = await fetch('/api/sessions/' + sessionId + '/previews');
+        if (res.ok) {
+          const { previews } = await res.json();
+          previewList.replaceChildren(...previews.map((preview) => {
+            const link = document.createElement('a');
+            link.href = '/session/' + sessionId + '/open?port=' + preview.port;
+            link.target = '_blank';
+            link.textContent = preview.label || 'Port ' + preview.port;
+            const item = document.createElement('li');
+            item.append(link);
+            return item;
+          }));
+          previewList.hidden = previews.length === 0;
+        }
+      } catch (e) {
+        console.error('Preview check failed:', e);
+      }
+      setTimeout(checkPreviews, 10000);
+    }
+    if (previewList) {
+      setTimeout(checkPreviews, 10000);
+    }
+
+    function loadAsset(tag, attributes) {
+      return new Promise((resolve, reject) => {
+        // Integrity checks on cross-origin files need a CORS request
+        const el = Object.assign(document.createElement(tag), attributes, { crossOrigin: 'anonymous', onload: resolve, onerror: reject });
+        document.head.append(el);
+      });
+    }
+
+    // xterm.js speaks ttyd's protocol: each message starts with its type, '0' for terminal data and '1' for a resize
+    const terminalPanel = document.getElementById('terminal-panel');
+    let terminalConnected = false;
+    let terminalFit = null;
+    async function openTerminal() {
+      terminalConnected = true;
+      if (!window.Terminal) {
+        await Promise.all([
+          loadAsset('link', { rel: 'stylesheet', href: '${XTERM_CDN_URL}/css/xterm.css', integrity: '${XTERM_CSS_INTEGRITY}' }),
+          loadAsset('script', { src: '${XTERM_CDN_URL}/lib/xterm.js', integrity: '${XTERM_JS_INTEGRITY}' }),
+          loadAsset('script', { src: '${XTERM_FIT_CDN_URL}/lib/addon-fit.js', integrity: '${XTERM_FIT_JS_INTEGRITY}' }),
+        ]);
+        window.addEventListener('resize', () => terminalFit?.fit());
+      }
+
+      const el = document.getElementById('terminal');
+      el.replaceChildren();
+      const term = new Terminal({ fontSize: 13, theme: { background: '#000000' } });
+      terminalFit = new FitAddon.FitAddon();
+      term.loadAddon(terminalFit);
+      term.open(el);
+      terminalFit.fit();
+
+      const encoder = new TextEncoder();
+      const scheme = location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(scheme + '//' + location.host + '/api/sessions/' + sessionId + '/terminal', ['tty']);
+      socket.binaryType = 'arraybuffer';
+      const send = (message) => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(encoder.encode(message));
+        }
+      };
+      socket.onopen = () => send(JSON.stringify({ AuthToken: '', columns: term.cols, rows: term.rows }));
+      socket.onmessage = (event) => {
+        const data = new Uint8Array(event.data);
+        if (data[0] === 48) {
+          term.write(data.subarray(1));
+        }
+      };
+      socket.onclose = () => {
+        term.write('\\r\\n[Disconnected. Close and reopen the terminal to reconnect.]\\r\\n');
+        terminalConnected = false;
+      };
+      term.onData((data) => send('0' + data));
+      term.onResize(({ cols, rows }) => send('1' + JSON.stringify({ columns: cols, rows })));
+      term.focus();
+    }
+    terminalPanel?.addEventListener('toggle', () => {
+      if (terminalPanel.open && !terminalConnected) {
+        openTerminal().catch((e) => {
+          console.error('Terminal failed:', e);
+          terminalConnected = false;
+        });
+      }
+    });
+
+    // Directories are fetched as they are expanded; a symlink opens as whatever it points at
+    const filesPanel = document.getElementById('files-panel');
+    const fileView = document.getElementById('file-view');
+    async function fetchFiles(path) {
+      const res = await fetch('/api/sessions/' + sessionId + '/files?path=' + encodeURIComponent(path));
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+      return data;
+    }
+
+    function showFile(path, text) {
+      document.getElementById('file-path').textContent = path;
+      fileView.textContent = text;
+      fileView.hidden = false;
+      fileView.scrollTop = 0;
+    }
+
+    function renderEntries(dir, entries) {
+      return entries.map((entry) => {
+        const path = dir ? dir + '/' + entry.name : entry.name;
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = entry.type === 'directory' ? entry.name + '/' : entry.name;
+        const item = document.createElement('li');
+        item.append(button);
+        button.addEventListener('click', () => openEntry(item, path));
+        return item;
+      });
+    }
+
+    async function openEntry(item, path) {
+      const expanded = item.querySelector('ul');
+      if (expanded) {
+        expanded.remove();
+        return;
+      }
+      try {
+        const data = await fetchFiles(path);
+        if (data.type === 'directory') {
+          const list = document.createElement('ul');
+          list.append(...renderEntries(path, data.entries));
+          item.append(list);
+        } else {
+          showFile(path, data.binary ? 'Binary file, ' + data.size + ' bytes' : data.content);
+        }
+      } catch (e) {
+        showFile(path, e.message);
+      }
+    }
+
+    filesPanel?.addEventListener('toggle', async () => {
+      const tree = document.getElementById('file-tree');
+      if (!filesPanel.open || tree.childElementCount) {
+        return;
+      }
+      try {
+        const { entries } = await fetchFiles('');
+        tree.replaceChildren(...renderEntries('', entries));
+      } catch (e) {
+        showFile('', e.message);
+      }
+    });
+
+    document.getElementById('extend-session')?.addEventListener('click', async () => {
+      const res = await fetch('/api/sessions/' + sessionId + '/extend', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      document.getElementById('expires-at').textContent = new Date(data.expiresAt).toISOString().slice(11, 16) + ' UTC';
+    });
+
+    document.getElementById('snapshot-session')?.addEventListener('click', async () => {
+      const res = await fetch('/api/sessions/' + sessionId + '/snapshot', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+        return;
+      }
+      window.location.reload();
+    });
+
+    document.getElementById('pull-request')?.addEventListener('click', async (e) => {
+      e.target.disabled = true;
+      e.target.textContent = 'Pushing...';
+      const res = await fetch('/api/sessions/' + sessionId + '/pull-request', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error);
+      }
+      window.location.reload();
+    });
+
+    document.getElementById('stop-session')?.addEventListener('click', async () => {
+      if (!confirm('Stop this session? Its workspace is snapshotted and the sandbox deleted.')) {
+        return;
+      }
+      const res = await fetch('/api/sessions/' + sessionId, { method: 'DELETE' });
+      if (!res.ok) {
+        alert((await res.json()).error);
+      }
+      window.location.reload();
+    });
+
+    const envForm = document.getElementById('env-form');
+    if (envForm) {
+      envForm.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const values = Object.fromEntries(new FormData(envForm));
+        const res = await fetch('/api/sessions/' + sessionId + '/env', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ values }),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          alert(data.error);
+          return;
+        }
+        window.location.reload();
+      });
+    }
+
+    const secretsForm = document.getElementById('secrets-form');
+    if (secretsForm) {
+      secretsForm.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const names = new FormData(secretsForm).getAll('names');
+        if (!names.length) {
+          return;
+        }
+        const res = await fetch('/api/sessions/' + sessionId + '/secrets', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ names }),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          alert(data.error);
+          return;
+        }
+        window.location.reload();
+      });
+    }
 
-      // If a session has been created, redirect to it
-      const sessionId = await env.CACHE.get(cacheKey);
-      if (sessionId) {
-        return Response.redirect(`${url.origin}/session/${sessionId}`, 302);
+    // Stream progress from the server, falling back to polling if the stream is unavailable
+    function subscribe() {
+      if (readOnly || !window.EventSource) {
+        setTimeout(checkStatus, 2000);
+        return;
       }
 
-      // Check if the lock is still present; if not, we can try to acquire it
-      existingLock = await env.CACHE.get(lockKey);
-      if (!existingLock) {
-        break;
-      }
+      const source = new EventSource('/api/sessions/' + sessionId + '/events');
+      source.addEventListener('status', (e) => {
+        const data = JSON.parse(e.data);
+        showStatus(data.status);
+        if (data.error) {
+          showProgress('Error: ' + data.error);
+        }
+        if (data.status === 'running') {
+          checkStatus();
+        }
+        // The server ends the stream here; closing it first keeps EventSource from reconnecting
+        if (data.status === 'error') {
+          source.close();
+        }
+        if (data.status === 'stopped') {
+          source.close();
+          window.location.reload();
+        }
+      });
+      source.addEventListener('queue', (e) => showQueuePosition(JSON.parse(e.data).position));
+      source.addEventListener('progress', (e) => showProgress(JSON.parse(e.data).message));
+      source.addEventListener('log', (e) => showLog(JSON.parse(e.data).lines));
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          setTimeout(checkStatus, 2000);
+        }
+      };
     }
 
-    // If we timed out and there's still no session, return an error
-    if (timedOut) {
-      const finalSessionId = await env.CACHE.get(cacheKey);
-      if (finalSessionId) {
-        return Response.redirect(`${url.origin}/session/${finalSessionId}`, 302);
-      }
-      return Response.json(
-        { error: 'Session creation in progress, please retry' },
-        { status: 503 }
-      );
+    function formatStatus(status) {
+      const map = {
+        queued: 'Queued',
+        initializing: 'Initializing...',
+        cloning: 'Cloning repository...',
+        installing: 'Installing dependencies...',
+        starting: 'Starting agent...',
+        running: 'Running',
+        error: 'Error',
+        stopped: 'Stopped'
+      };
+      return map[status] || status;
     }
-  }
-
-  // Set lock with short expiration (30 seconds)
-  await env.CACHE.put(lockKey, lockValue, { expirationTtl: 60 });
 
-  try {
-    // Double-check no session was created while we were acquiring lock
-    const recheckSession = await env.CACHE.get(cacheKey);
-    if (recheckSession) {
-      await env.CACHE.delete(lockKey);
-      return Response.redirect(`${url.origin}/session/${recheckSession}`, 302);
+    // Stopped sessions never change again, and their event history would only replay the stop
+    if ('${info.status}' !== 'stopped' && ('${info.status}' !== 'running' || !readOnly)) {
+      subscribe();
     }
+  </script>
+</body>
+</html>`;
 
-    // Create new session
-    const sessionId = crypto.randomUUID();
-    const sandbox = getSandbox(env.SANDBOX, sessionId);
-
-    // Store session mapping
-    await env.CACHE.put(cacheKey, sessionId, { expirationTtl: 7200 });
-    await env.CACHE.put(
-      `info:${sessionId}`,
-      JSON.stringify({
-        id: sessionId,
-        repo: repoFullName,
-        repoUrl,
-        createdAt: Date.now(),
-        status: 'initializing',
-      }),
-      { expirationTtl: 7200 }
-    );
-
-    // Release lock
-    await env.CACHE.delete(lockKey);
-
-    // Initialize sandbox in background
-    ctx.waitUntil(initializeSandbox(env, sandbox, sessionId, repoFullName, repoUrl));
-
-    // Redirect to session page
-    return Response.redirect(`${url.origin}/session/${sessionId}`, 302);
-  } catch (error) {
-    // Release lock on error
-    await env.CACHE.delete(lockKey);
-    throw error;
-  }
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html' },
+  });
 }
 
-async function initializeSandbox(
-  env: Env,
-  sandbox: Sandbox,
-  sessionId: string,
-  repoFullName: string,
-  repoUrl: string
-): Promise<void> {
-  try {
-    // Update status
-    await updateSessionStatus(env, sessionId, 'cloning');
-
-    // Clone the repository using the SDK's gitCheckout method (safer than shell exec)
-    await sandbox.gitCheckout(repoUrl, {
-      targetDir: '/home/user/repo',
-      depth: 1,
-    });
-
-    await updateSessionStatus(env, sessionId, 'starting');
+const STOP_REASONS: Record<StopReason, string> = {
+  user: 'Stopped by its owner',
+  expired: 'Stopped because it expired',
+  idle: 'Stopped after 30 minutes without activity',
+  stalled: 'Stopped because the launch never finished',
+  failed: 'Stopped after the launch failed',
+  completed: 'Stopped after its task finished',
+  admin: 'Stopped by an operator',
+};
 
-    // Write OpenCode config with Claude Opus 4.5
-    const configContent = JSON.stringify({
-      provider: {
-        anthropic: {
-          apiKey: env.ANTHROPIC_API_KEY,
-        },
-      },
-      model: {
-        provider: 'anthropic',
-        model: 'claude-opus-4-5-20250514',
-      },
-    }, null, 2);
+function renderSessionActions(info: SessionInfo): string {
+  return `<div class="actions">
+      <span>Expires at <span id="expires-at">${new Date(info.expiresAt).toISOString().slice(11, 16)} UTC</span></span>
+      ${info.status === 'running' ? '<button id="snapshot-session" type="button">Snapshot</button>' : ''}
+      <button id="extend-session" type="button">Extend</button>
+      <button id="stop-session" type="button">Stop</button>
+    </div>`;
+}
 
-    await sandbox.writeFile('/home/user/repo/.opencode.json', configContent);
+// Pull requests need a GitHub account to push with, so anonymous owners are offered sign-in instead.
+// Repositories on other hosts can only be exported as files
+function renderExportActions(info: SessionInfo): string {
+  const pullRequestAction = repoHostname(info.repo) !== 'github.com'
+    ? ''
+    : !info.owner.startsWith('github:')
+      ? `<a href="${loginUrl(`/session/${info.id}`)}">Sign in to open a pull request</a>`
+      : `<button id="pull-request" type="button">${info.pullRequest ? 'Push to pull request' : 'Open pull request'}</button>`;
+  return `<div class="actions export">
+      <a href="/api/sessions/${info.id}/export?format=patch">Download patch</a>
+      <a href="/api/sessions/${info.id}/export?format=bundle">Download bundle</a>
+      ${pullRequestAction}
+    </div>`;
+}
 
-    // Start OpenCode server
-    await sandbox.exec(
-      'cd /home/user/repo && nohup opencode serve --port 4096 > /tmp/opencode.log 2>&1 &',
-      { timeout: 30000 }
-    );
+const MAX_LISTED_SNAPSHOTS = 5;
+
+function renderSnapshots(repo: string, snapshots: SnapshotInfo[]): string {
+  const items = snapshots.slice(0, MAX_LISTED_SNAPSHOTS).map((snapshot) => `<li>
+        <a href="${repoLaunchPath(repo)}?restore=${snapshot.id}">Restore</a>
+        snapshot from ${new Date(snapshot.createdAt).toISOString().slice(0, 16).replace('T', ' ')} UTC
+        <span>${snapshot.reason === 'teardown' ? 'saved on stop' : 'saved manually'}, ${(snapshot.size / 1024).toFixed(0)} KB</span>
+      </li>`);
+  return `<ul class="snapshots">
+      ${items.join('\n      ')}
+    </ul>`;
+}
 
-    // Wait for server to start
-    await new Promise((resolve) => setTimeout(resolve, 5000));
+function renderConfigErrors(file: string, errors: string[]): string {
+  return `<div class="config-errors">
+      <strong>${escapeHtml(file)} is invalid and was ignored:</strong>
+      <ul>${errors.map((error) => `<li>${escapeHtml(error)}</li>`).join('')}</ul>
+    </div>`;
+}
 
-    // Update status to running
-    await updateSessionStatus(env, sessionId, 'running');
+function renderPreviews(sessionId: string, previews: PreviewInfo[]): string {
+  const items = previews.map((preview) => `<li>
+        <a href="/session/${sessionId}/open?port=${preview.port}" target="_blank">${escapeHtml(preview.label ?? `Port ${preview.port}`)}</a>
+      </li>`);
+  return `<ul id="previews" class="previews"${previews.length ? '' : ' hidden'}>
+      ${items.join('\n      ')}
+    </ul>`;
+}
 
-    // Expose OpenCode port
-    try {
-      const portInfo = await sandbox.exposePort(4096);
-      await env.CACHE.put(`preview:${sessionId}`, portInfo.url, { expirationTtl: 7200 });
-    } catch (e) {
-      console.error('Failed to expose port:', e);
-    }
-  } catch (error) {
-    console.error('Sandbox initialization failed:', error);
-    await updateSessionStatus(env, sessionId, 'error', String(error));
-  }
+// Both panels load when first opened, so sessions nobody inspects never start a terminal
+function renderWorkspacePanels(): string {
+  return `<details id="terminal-panel" class="workspace">
+      <summary>Terminal</summary>
+      <div id="terminal" class="terminal"></div>
+    </details>
+    <details id="files-panel" class="workspace">
+      <summary>Files</summary>
+      <ul id="file-tree" class="file-tree"></ul>
+      <p id="file-path" class="file-path"></p>
+      <pre id="file-view" class="log file-view" hidden></pre>
+    </details>`;
 }
 
-async function updateSessionStatus(
-  env: Env,
-  sessionId: string,
-  status: string,
-  error?: string
-): Promise<void> {
-  const infoKey = `info:${sessionId}`;
-  const existing = await env.CACHE.get(infoKey, 'json') as Record<string, unknown> | null;
+// Values are never rendered back, only whether each variable has been provided
+function renderEnvForm(names: string[], provided: string[]): string {
+  const fields = names.map((name) => `<label>
+        <code>${name}</code>${provided.includes(name) ? ' &#10003;' : ''}
+        <input type="password" name="${name}" autocomplete="off" placeholder="${provided.includes(name) ? 'Already set' : 'Required by this repository'}">
+      </label>`);
+  return `<form id="env-form" class="env-form">
+      <strong>Environment variables</strong>
+      ${fields.join('\n      ')}
+      <button type="submit">Save and restart the agent</button>
+    </form>`;
+}
 
-  if (existing) {
-    await env.CACHE.put(
-      infoKey,
-      JSON.stringify({
-        ...existing,
-        status,
-        error,
-        updatedAt: Date.now(),
-      }),
-      { expirationTtl: 7200 }
-    );
-  }
+// Lists the owner's stored secrets by name so more can be injected; values are never rendered
+function renderSecretsForm(stored: string[], injected: string[]): string {
+  const available = stored.filter((name) => !injected.includes(name));
+  const fields = available.map((name) => `<label>
+        <input type="checkbox" name="names" value="${name}"><code>${name}</code>
+      </label>`);
+  return `<form id="secrets-form" class="env-form">
+      <strong>Secrets</strong>
+      ${injected.length ? `<p>Injected: ${injected.map((name) => `<code>${name}</code>`).join(', ')}</p>` : ''}
+      ${fields.join('\n      ')}
+      ${available.length ? '<button type="submit">Inject and restart the agent</button>' : ''}
+    </form>`;
 }
 
-async function handleStatus(env: Env, sessionId: string): Promise<Response> {
-  const info = await env.CACHE.get(`info:${sessionId}`, 'json');
-  const previewUrl = await env.CACHE.get(`preview:${sessionId}`);
+function renderSetupSteps(steps: SetupStepResult[]): string {
+  const items = steps.map((step) => `<li class="${step.success ? 'ok' : 'failed'}">
+        ${step.success ? '&#10003;' : '&#10007;'} <code>${escapeHtml(step.command)}</code>
+        <span>${(step.durationMs / 1000).toFixed(1)}s</span>
+      </li>`);
+  return `<ul class="setup">
+      ${items.join('\n      ')}
+    </ul>`;
+}
 
-  if (!info) {
-    return Response.json({ error: 'Session not found' }, { status: 404 });
-  }
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
 
-  return Response.json({
-    ...info,
-    previewUrl,
-  });
+function formatStatus(status: string): string {
+  const map: Record<string, string> = {
+    queued: 'Queued',
+    initializing: 'Initializing...',
+    cloning: 'Cloning repository...',
+    installing: 'Installing dependencies...',
+    starting: 'Starting agent...',
+    running: 'Running',
+    error: 'Error',
+    stopped: 'Stopped',
+  };
+  return map[status] || status;
 }
 
-async function handleSessionPage(env: Env, sessionId: string, origin: string): Promise<Response> {
-  const info = await env.CACHE.get(`info:${sessionId}`, 'json') as Record<string, unknown> | null;
-  const previewUrl = await env.CACHE.get(`preview:${sessionId}`);
+function renderNoticePage(title: string, message: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} - cloudx.sh</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #0a0a0a;
+      color: #fff;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 2rem;
+    }
+    .container { max-width: 600px; text-align: center; }
+    h1 { font-size: 2rem; margin-bottom: 1rem; color: #f97316; }
+    p { color: #a0a0a0; margin-bottom: 2rem; }
+    a { color: #f97316; text-decoration: none; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>
+    <a href="/">Back to cloudx.sh</a>
+  </div>
+</body>
+</html>`;
+}
 
-  if (!info) {
-    return new Response('Session not found', { status: 404 });
-  }
+function renderAdminLoginPage(env: Env, invalid: boolean): string {
+  const methods = [
+    env.ADMIN_TOKEN
+      ? `<form method="POST" action="/admin/login">
+      <input type="password" name="token" placeholder="Admin token" autocomplete="current-password" required>
+      <button type="submit">Sign in</button>
+    </form>`
+      : '',
+    env.ADMIN_GITHUB_LOGINS ? `<a href="${loginUrl('/admin')}">Sign in with GitHub</a>` : '',
+  ].filter(Boolean);
 
-  const html = `<!DOCTYPE html>
+  return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${info.repo} - cloudx.sh</title>
+  <title>Admin - cloudx.sh</title>
   <style>
     * { box-sizing: border-box; margin: 0; padding: 0; }
     body {
@@ -379,129 +2969,218 @@ async function handleSessionPage(env: Env, sessionId: string, origin: string): P
       color: #fff;
       min-height: 100vh;
       display: flex;
-      flex-direction: column;
       align-items: center;
       justify-content: center;
       padding: 2rem;
     }
     .container { max-width: 600px; text-align: center; }
     h1 { font-size: 2rem; margin-bottom: 1rem; color: #f97316; }
-    .status {
-      display: inline-flex;
-      align-items: center;
-      gap: 0.5rem;
-      padding: 0.5rem 1rem;
+    p { color: #a0a0a0; margin-bottom: 2rem; }
+    p.error { color: #ef4444; }
+    a { color: #f97316; text-decoration: none; }
+    form { display: flex; gap: 0.5rem; margin-bottom: 1.5rem; }
+    input {
+      flex: 1;
+      padding: 0.6rem 0.8rem;
       background: #1a1a1a;
-      border-radius: 2rem;
-      margin-bottom: 2rem;
-    }
-    .status-dot {
-      width: 10px;
-      height: 10px;
-      border-radius: 50%;
-      animation: pulse 2s infinite;
+      border: 1px solid #333;
+      border-radius: 6px;
+      color: #fff;
     }
-    .status-dot.initializing, .status-dot.cloning, .status-dot.starting { background: #eab308; }
-    .status-dot.running { background: #22c55e; }
-    .status-dot.error { background: #ef4444; }
-    @keyframes pulse { 0%, 100% { opacity: 1; } 50% { opacity: 0.5; } }
-    .preview-link {
-      display: inline-block;
-      padding: 1rem 2rem;
+    button {
+      padding: 0.6rem 1.2rem;
       background: #f97316;
+      border: none;
+      border-radius: 6px;
       color: #fff;
-      text-decoration: none;
-      border-radius: 0.5rem;
-      font-weight: 600;
-      margin-top: 1rem;
-    }
-    .preview-link:hover { background: #fb923c; }
-    .preview-link.disabled {
-      background: #333;
-      pointer-events: none;
+      cursor: pointer;
     }
-    .info { color: #888; margin-top: 2rem; font-size: 0.875rem; }
   </style>
 </head>
 <body>
   <div class="container">
-    <h1>${info.repo}</h1>
-    <div class="status">
-      <div class="status-dot ${info.status}"></div>
-      <span id="status-text">${formatStatus(info.status as string)}</span>
-    </div>
+    <h1>cloudx.sh admin</h1>
+    ${invalid ? '<p class="error">That admin token is not valid.</p>' : ''}
+    ${methods.length
+      ? `<p>Sign in as an operator to manage sessions.</p>
+    ${methods.join('\n    ')}`
+      : '<p>The admin dashboard is disabled. Set ADMIN_TOKEN or ADMIN_GITHUB_LOGINS to enable it.</p>'}
+  </div>
+</body>
+</html>`;
+}
 
-    ${previewUrl
-      ? `<a href="${previewUrl}" target="_blank" class="preview-link">Open in OpenCode</a>`
-      : `<a class="preview-link disabled">Starting OpenCode...</a>`
-    }
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  return minutes < 24 * 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${Math.floor(minutes / (24 * 60))}d`;
+}
 
-    <p class="info">
-      Session ID: ${sessionId.slice(0, 8)}...<br>
-      Powered by Claude Opus 4.5
-    </p>
-  </div>
+function formatTime(at: number): string {
+  return new Date(at).toISOString().replace('T', ' ').slice(0, 19);
+}
 
-  <script>
-    const sessionId = '${sessionId}';
-    async function checkStatus() {
-      try {
-        const res = await fetch('/api/status/' + sessionId);
-        const data = await res.json();
-        document.getElementById('status-text').textContent = formatStatus(data.status);
-        document.querySelector('.status-dot').className = 'status-dot ' + data.status;
+function renderAdminSessionRow(info: SessionInfo, cap: number, now: number): string {
+  const status = info.status === 'stopped' ? 'Stopped, awaiting teardown' : formatStatus(info.status);
+  const previews = info.previews?.length ? `, ${info.previews.length} preview${info.previews.length === 1 ? '' : 's'}` : '';
+  return `<tr>
+          <td><a href="/session/${info.id}"><code>${info.id.slice(0, 8)}</code></a></td>
+          <td>${escapeHtml(info.repo)}${info.task ? ' <span class="tag">task</span>' : ''}</td>
+          <td>${escapeHtml(info.owner)}</td>
+          <td class="status-${info.status}">${escapeHtml(status)}</td>
+          <td>${formatAge(now - info.createdAt)}</td>
+          <td>${formatUsage(info.usage, cap)}${previews}</td>
+          <td class="actions">
+            <button data-action="stop" data-session="${info.id}">Force stop</button>
+            <button data-action="release" data-session="${info.id}">Release key</button>
+          </td>
+        </tr>`;
+}
 
-        if (data.previewUrl && data.status === 'running') {
-          const link = document.querySelector('.preview-link');
-          link.href = data.previewUrl;
-          link.textContent = 'Open in OpenCode';
-          link.classList.remove('disabled');
-        }
+function renderAdminErrorRow(event: AuditEvent): string {
+  return `<tr>
+          <td>${formatTime(event.at)}</td>
+          <td>${event.type}</td>
+          <td><a href="/session/${event.sessionId}"><code>${event.sessionId.slice(0, 8)}</code></a></td>
+          <td>${escapeHtml(event.repo)}</td>
+          <td>${escapeHtml(event.detail ?? '')}</td>
+        </tr>`;
+}
 
-        if (data.status !== 'running' && data.status !== 'error') {
-          setTimeout(checkStatus, 2000);
-        }
-      } catch (e) {
-        console.error('Status check failed:', e);
-        setTimeout(checkStatus, 3000);
-      }
-    }
+function renderRepoList(repos: string[], empty: string): string {
+  return repos.length ? repos.map((repo) => `<code>${escapeHtml(repo)}</code>`).join(' ') : `<span class="muted">${empty}</span>`;
+}
 
-    function formatStatus(status) {
-      const map = {
-        initializing: 'Initializing...',
-        cloning: 'Cloning repository...',
-        starting: 'Starting OpenCode...',
-        running: 'Running',
-        error: 'Error'
-      };
-      return map[status] || status;
-    }
+function renderAdminPage(env: Env, sessions: SessionInfo[], errors: AuditEvent[], gauges: MetricGauges): string {
+  const now = Date.now();
+  const cap = spendCaps(env).session;
+  const { allowed, blocked } = repoAccessLists(env);
+  const holding = sessions.filter(holdsSlot).length;
+  const counts = new Map<SessionStatus, number>();
+  for (const info of sessions) {
+    counts.set(info.status, (counts.get(info.status) ?? 0) + 1);
+  }
+  const summary = [...counts].map(([status, count]) => `${count} ${status}`).join(', ');
 
-    if ('${info.status}' !== 'running') {
-      setTimeout(checkStatus, 2000);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Admin - cloudx.sh</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #0a0a0a;
+      color: #fff;
+      padding: 2rem;
+    }
+    .container { max-width: 1200px; margin: 0 auto; }
+    h1 { font-size: 1.75rem; margin-bottom: 0.5rem; color: #f97316; }
+    h2 { font-size: 1.1rem; margin: 2rem 0 0.75rem; }
+    p { color: #a0a0a0; margin-bottom: 0.5rem; }
+    a { color: #f97316; text-decoration: none; }
+    code { font-family: 'SF Mono', Monaco, monospace; font-size: 0.85rem; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+    th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #222; vertical-align: top; }
+    th { color: #a0a0a0; font-weight: 500; }
+    td.actions { white-space: nowrap; }
+    .status-running { color: #22c55e; }
+    .status-error { color: #ef4444; }
+    .status-stopped, .muted { color: #666; }
+    .tag { font-size: 0.75rem; color: #a0a0a0; border: 1px solid #333; border-radius: 4px; padding: 0 0.3rem; }
+    button {
+      padding: 0.25rem 0.6rem;
+      background: #1a1a1a;
+      border: 1px solid #333;
+      border-radius: 4px;
+      color: #fff;
+      cursor: pointer;
     }
+    button:hover { border-color: #f97316; }
+    button:disabled { opacity: 0.5; cursor: default; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>cloudx.sh admin</h1>
+    <p>${holding} of ${schedulerLimits(env).capacity} sandbox slots in use${summary ? ` (${summary})` : ''}.
+      Warm pool: ${gauges.warmSandboxes.ready} ready, ${gauges.warmSandboxes.starting} starting.</p>
+
+    <h2>Active sessions</h2>
+    ${sessions.length
+      ? `<table>
+      <thead>
+        <tr><th>Session</th><th>Repository</th><th>Owner</th><th>Status</th><th>Age</th><th>Usage</th><th></th></tr>
+      </thead>
+      <tbody>
+        ${sessions.map((info) => renderAdminSessionRow(info, cap, now)).join('\n        ')}
+      </tbody>
+    </table>`
+      : '<p class="muted">No active sessions.</p>'}
+
+    <h2>Repository access</h2>
+    <p>Allowed: ${renderRepoList(allowed, 'any repository')}</p>
+    <p>Blocked: ${renderRepoList(blocked, 'none')}</p>
+
+    <h2>Recent errors</h2>
+    ${errors.length
+      ? `<table>
+      <thead>
+        <tr><th>Time (UTC)</th><th>Phase</th><th>Session</th><th>Repository</th><th>Detail</th></tr>
+      </thead>
+      <tbody>
+        ${errors.map(renderAdminErrorRow).join('\n        ')}
+      </tbody>
+    </table>`
+      : '<p class="muted">No errors recorded.</p>'}
+  </div>
+  <script>
+    const confirmations = {
+      stop: 'Stop this session and destroy its sandbox?',
+      release: 'Release the launch key, so the next launch of this repository starts a new session?',
+    };
+    document.querySelectorAll('button[data-action]').forEach((button) => {
+      button.addEventListener('click', async () => {
+        const { action, session } = button.dataset;
+        if (!confirm(confirmations[action])) {
+          return;
+        }
+        button.disabled = true;
+        const res = await fetch('/api/admin/sessions/' + session + '/' + action, { method: 'POST' });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          alert(data.error || 'Request failed');
+        }
+        location.reload();
+      });
+    });
   </script>
 </body>
 </html>`;
+}
 
-  return new Response(html, {
-    headers: { 'Content-Type': 'text/html' },
-  });
+function formatTokens(count: number): string {
+  return count >= 1e6 ? `${(count / 1e6).toFixed(1)}M` : count >= 1e3 ? `${(count / 1e3).toFixed(1)}k` : String(count);
 }
 
-function formatStatus(status: string): string {
-  const map: Record<string, string> = {
-    initializing: 'Initializing...',
-    cloning: 'Cloning repository...',
-    starting: 'Starting OpenCode...',
-    running: 'Running',
-    error: 'Error',
-  };
-  return map[status] || status;
+// Cached input is part of the input the model read, it is only billed at a lower rate
+function formatUsage(usage: LlmUsage | undefined, cap: number): string {
+  const input = (usage?.inputTokens ?? 0) + (usage?.cachedInputTokens ?? 0);
+  return `${formatTokens(input)} input / ${formatTokens(usage?.outputTokens ?? 0)} output tokens, ${formatUsd(usage?.costUsd ?? 0)} of ${formatUsd(cap)}`;
+}
+
+function formatQueuePosition(position?: number): string {
+  if (!position) {
+    return '';
+  }
+  return position === 1 ? 'Next in line for a sandbox' : `Position ${position} in line for a sandbox`;
 }
 
-function renderHomePage(): string {
+function renderHomePage(user: AuthUser | null, models: ModelInfo[]): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -546,6 +3225,14 @@ function renderHomePage(): string {
       outline: none;
     }
     input:focus { border-color: #f97316; }
+    select {
+      padding: 1rem;
+      font-size: 1rem;
+      border: 1px solid #333;
+      border-radius: 0.5rem;
+      background: #1a1a1a;
+      color: #fff;
+    }
     button {
       padding: 1rem 2rem;
       font-size: 1rem;
@@ -578,27 +3265,45 @@ function renderHomePage(): string {
       font-size: 0.875rem;
     }
     .powered-by a { color: #f97316; text-decoration: none; }
+    .account {
+      position: absolute;
+      top: 1rem;
+      right: 1.5rem;
+      font-size: 0.875rem;
+      color: #888;
+    }
+    .account a { color: #f97316; text-decoration: none; }
   </style>
 </head>
 <body>
+  <div class="account">
+    ${user
+      ? `Signed in as <strong>${escapeHtml(user.login)}</strong> &middot; <a href="/auth/logout">Sign out</a>`
+      : `<a href="/auth/login">Sign in with GitHub</a> to open private repositories`
+    }
+  </div>
   <div class="container">
     <h1>cloudx.sh</h1>
-    <p>Launch any GitHub repository as an AI-powered development environment instantly.</p>
+    <p>Launch any GitHub, GitLab, Bitbucket or Codeberg repository as an AI-powered development environment instantly.</p>
 
     <form class="input-group" onsubmit="handleSubmit(event)">
       <input
         type="text"
         id="repo-url"
-        placeholder="github.com/owner/repo"
+        placeholder="github.com/owner/repo or gitlab.com/group/project"
         autocomplete="off"
       />
+      <select id="model" title="Model">
+        <option value="">Default model</option>
+        ${models.map((model) => `<option value="${model.id}">${model.name}</option>`).join('\n        ')}
+      </select>
       <button type="submit">Launch</button>
     </form>
 
     <div class="features">
       <div class="feature">
-        <h3>Claude Opus 4.5</h3>
-        <p>Powered by Anthropic's most capable model for intelligent code assistance.</p>
+        <h3>Your Choice of Model</h3>
+        <p>Claude Opus 4.5 by default, or pick another model for each session.</p>
       </div>
       <div class="feature">
         <h3>OpenCode</h3>
@@ -625,12 +3330,15 @@ function renderHomePage(): string {
       e.preventDefault();
       let url = document.getElementById('repo-url').value.trim();
       url = url.replace(/^https?:\\/\\//, '').replace(/\\.git$/, '');
-      if (url.startsWith('github.com/')) {
-        window.location.href = '/' + url;
+      const model = document.getElementById('model').value;
+      const query = model ? '?model=' + encodeURIComponent(model) : '';
+      // Any URL starting with a hostname goes to that host; a plain owner/repo means GitHub
+      if (url.match(/^[\\w-]+(\\.[\\w-]+)+\\/./)) {
+        window.location.href = '/' + url + query;
       } else if (url.match(/^[\\w-]+\\/[\\w.-]+$/)) {
-        window.location.href = '/github.com/' + url;
+        window.location.href = '/github.com/' + url + query;
       } else {
-        alert('Please enter a valid GitHub URL or owner/repo');
+        alert('Please enter a repository URL, e.g. gitlab.com/group/project, or a GitHub owner/repo');
       }
     }
   </script>
@@ -0,0 +1,64 @@
+/**
+ * Launch coordinator Durable Object
+ *
+ * One instance per launch key, i.e. per repository, ref, subdirectory and launch
+ * choices, which maps each owner's session key to the live session it launched.
+ * Concurrent launches of the same key share one session, while launches of other
+ * repositories never wait on each other.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { SchedulerLimits } from './scheduler';
+import { getSessionRegistry } from './session-registry';
+import { type NewSession, type QueuedLaunch, getSessionStore, isLive } from './session-store';
+import type { Env, SessionInfo } from './types';
+
+// The coordinator a session was launched through, and the owner's key within it
+export interface SessionKeys {
+  launchKey: string;
+  sessionKey: string;
+}
+
+export class LaunchCoordinator extends DurableObject<Env> {
+  /**
+   * Return the live session for a key, or have the registry create one. Creating a
+   * session calls other objects, which would let a second launch of the same key in
+   * meanwhile, so the claim holds off other calls until the key is recorded.
+   */
+  async claimSession(
+    keys: SessionKeys,
+    session: NewSession,
+    launch: QueuedLaunch,
+    limits: SchedulerLimits
+  ): Promise<{ session: SessionInfo; created: boolean }> {
+    return this.ctx.blockConcurrencyWhile(async () => {
+      const existing = await this.findLiveSession(keys.sessionKey);
+      if (existing) {
+        return { session: existing, created: false };
+      }
+      const info = await getSessionRegistry(this.env).createSession(session, launch, limits, keys);
+      await this.ctx.storage.put(`key:${keys.sessionKey}`, info.id);
+      return { session: info, created: true };
+    });
+  }
+
+  // The session claimSession would hand out for a key without creating one, if any
+  async findLiveSession(sessionKey: string): Promise<SessionInfo | null> {
+    const existingId = await this.ctx.storage.get<string>(`key:${sessionKey}`);
+    const existing = existingId ? await getSessionStore(this.env, existingId).getSession() : null;
+    return existing && isLive(existing) ? existing : null;
+  }
+
+  // Returns false when the key already points elsewhere or nowhere
+  async releaseSessionKey(sessionKey: string, sessionId: string): Promise<boolean> {
+    if (await this.ctx.storage.get(`key:${sessionKey}`) !== sessionId) {
+      return false;
+    }
+    await this.ctx.storage.delete(`key:${sessionKey}`);
+    return true;
+  }
+}
+
+export function getLaunchCoordinator(env: Env, launchKey: string): DurableObjectStub<LaunchCoordinator> {
+  return env.LAUNCH_COORDINATOR.get(env.LAUNCH_COORDINATOR.idFromName(launchKey));
+}
@@ -0,0 +1,157 @@
+/**
+ * Session teardown and reaping
+ *
+ * Stopping a running session first snapshots its workspace to R2. It is then
+ * marked in its store, so a launch still in progress fails its next
+ * transition, and its ports are unexposed and the sandbox container destroyed.
+ * The cron reaper runs the same teardown for sessions that expired, went idle,
+ * stalled or failed, and retries teardowns that did not finish. It also stops
+ * headless tasks whose agent has exited, which saves their results first.
+ */
+
+import { getSandbox } from '@cloudflare/sandbox';
+import { AGENT_BACKENDS } from './agents';
+import { collectAgentCommands, recordAudit } from './audit';
+import { logEvent } from './log';
+import { getSessionRegistry } from './session-registry';
+import { getSessionStore, loadSessions, reapReason } from './session-store';
+import { REPO_DIR } from './setup';
+import { createSnapshot } from './snapshots';
+import { deleteTaskResults, readTaskExit, saveTaskResults } from './tasks';
+import type { Env, SessionInfo, StopReason } from './types';
+
+export async function stopSession(env: Env, sessionId: string, reason: StopReason): Promise<SessionInfo> {
+  const store = getSessionStore(env, sessionId);
+  const sandbox = getSandbox(env.SANDBOX, sessionId);
+  const startedAt = Date.now();
+
+  const current = await store.getSession();
+  // The last commands the agent ran are only in the sandbox
+  if (current?.status === 'running') {
+    try {
+      await collectAgentCommands(env, sessionId);
+    } catch (e) {
+      console.error(`Failed to collect agent commands of session ${sessionId}:`, e);
+    }
+  }
+  if (current?.status === 'running' && current.agent && current.task) {
+    try {
+      await saveTaskResults(env, sandbox, current, REPO_DIR, AGENT_BACKENDS[current.agent].workspaceFiles);
+    } catch (e) {
+      console.error(`Failed to save results of task ${sessionId}:`, e);
+    }
+  }
+  if (current?.status === 'running' && current.agent) {
+    try {
+      const snapshot = await createSnapshot(env, sandbox, current, REPO_DIR, 'teardown', AGENT_BACKENDS[current.agent].workspaceFiles);
+      if (snapshot) {
+        logEvent('snapshot_saved', { sessionId, snapshotId: snapshot.id });
+      }
+    } catch (e) {
+      // An asleep sandbox has already lost its workspace; the teardown still has to happen
+      console.error(`Failed to snapshot session ${sessionId} before teardown:`, e);
+    }
+  }
+
+  const info = await store.stopSession(reason);
+  if (info.destroyedAt) {
+    return info;
+  }
+  // Sessions stopped while queued never got a sandbox
+  if (current?.status === 'queued') {
+    await recordAudit(env, sessionId, { type: 'teardown', success: true, durationMs: Date.now() - startedAt, detail: reason });
+    return store.markDestroyed();
+  }
+
+  const ports = [
+    ...(info.agent ? [AGENT_BACKENDS[info.agent].port] : []),
+    ...(info.previews ?? []).map((preview) => preview.port),
+  ];
+  for (const port of ports) {
+    try {
+      await sandbox.unexposePort(port);
+    } catch (e) {
+      // Destroying the sandbox below removes the port as well
+      console.error(`Failed to unexpose port ${port}:`, e);
+    }
+  }
+
+  try {
+    await sandbox.destroy();
+  } catch (e) {
+    await recordAudit(env, sessionId, { type: 'teardown', success: false, durationMs: Date.now() - startedAt, detail: reason });
+    throw e;
+  }
+  await recordAudit(env, sessionId, { type: 'teardown', success: true, durationMs: Date.now() - startedAt, detail: reason });
+  return store.markDestroyed();
+}
+
+/**
+ * Stop a headless task once its agent has exited. Returns the session as it
+ * stands afterwards, so callers can check on a task and report it in one go.
+ */
+export async function finishTask(env: Env, info: SessionInfo): Promise<SessionInfo> {
+  if (info.status !== 'running' || !info.task || info.task.exitCode !== undefined) {
+    return info;
+  }
+
+  const exitCode = await readTaskExit(getSandbox(env.SANDBOX, info.id));
+  if (exitCode === null) {
+    return info;
+  }
+  await getSessionStore(env, info.id).recordTaskExit(exitCode);
+  return stopSession(env, info.id, 'completed');
+}
+
+// Scheduled handler body: finish tasks, stop what should no longer run, then purge old records
+export async function reapSessions(env: Env): Promise<void> {
+  const registry = getSessionRegistry(env);
+
+  for (const task of await loadSessions(env, await registry.listRunningTasks())) {
+    try {
+      await finishTask(env, task);
+    } catch (e) {
+      console.error(`Failed to check on task ${task.id}:`, e);
+    }
+  }
+
+  for (const summary of await registry.listActiveSessions()) {
+    const store = getSessionStore(env, summary.id);
+    const session = await store.getSession();
+    // Stores are written before their summary, so a summary without one is left over from a purge
+    if (!session) {
+      await registry.removeSession(summary.id);
+      continue;
+    }
+    // The registry missed the teardown, e.g. because the store could not reach it
+    if (session.destroyedAt) {
+      await store.reindex();
+      continue;
+    }
+    const reason = reapReason(session, Date.now());
+    if (!reason) {
+      continue;
+    }
+    try {
+      await stopSession(env, session.id, reason);
+      logEvent('session_reaped', { sessionId: session.id, repo: session.repo, reason });
+    } catch (e) {
+      // Left for the next run, the session stays reapable until its sandbox is destroyed
+      console.error(`Failed to reap session ${session.id}:`, e);
+    }
+  }
+
+  const ended = await registry.listEnded();
+  for (const summary of ended) {
+    const store = getSessionStore(env, summary.id);
+    const session = await store.getSession();
+    if (session?.task) {
+      await deleteTaskResults(env, session);
+    }
+    await store.purge();
+    await registry.removeSession(summary.id);
+  }
+  if (ended.length > 0) {
+    logEvent('sessions_purged', { count: ended.length });
+  }
+}
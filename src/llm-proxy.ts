@@ -0,0 +1,147 @@
+/**
+ * LLM proxy
+ *
+ * Sandboxes never see the deployment's provider keys. Agents are configured with
+ * the proxy's URL and a token that only identifies their session and its model's
+ * provider; the proxy swaps the token for the real key, forwards the request to
+ * the provider and meters the tokens each response reports against the session
+ * and its owner. Only the generation endpoints are forwarded, and only for
+ * allowlisted models, as those are the requests the proxy can price.
+ *
+ * Each request's estimated cost is held against the spend caps while it runs,
+ * see src/metering.ts. Requests are refused once what a session or its owner has
+ * spent and has in flight reaches a cap, so the requests that cross it still complete.
+ */
+
+import { signValue, verifySignedValue } from './auth';
+import { estimateTokens, meterResponse, prepareBody, priceUsage } from './metering';
+import { PROVIDERS, modelPricing } from './models';
+import { getSessionStore } from './session-store';
+import type { Env, ProviderId } from './types';
+
+// Keeps proxy tokens apart from the other values signed with SESSION_SECRET
+const TOKEN_PREFIX = 'llm:';
+
+// Headers that describe the hop to the worker rather than the request to the provider
+const DROPPED_HEADERS = ['host', 'cookie', 'authorization', 'x-api-key', 'x-goog-api-key', 'content-length'];
+
+// The generation endpoints, whose responses report usage; batches, files, embeddings and the like are not forwarded
+const METERED_ENDPOINTS: Record<ProviderId, RegExp> = {
+  anthropic: /^\/v1\/messages$/,
+  openai: /^\/v1\/(chat\/completions|responses)$/,
+  google: /^\/v1(beta)?\/models\/[^/:]+:(generateContent|streamGenerateContent)$/,
+};
+
+// Providers expect their key in different places
+const KEY_HEADERS: Record<ProviderId, (headers: Headers, apiKey: string) => void> = {
+  anthropic: (headers, apiKey) => headers.set('x-api-key', apiKey),
+  openai: (headers, apiKey) => headers.set('Authorization', `Bearer ${apiKey}`),
+  google: (headers, apiKey) => headers.set('x-goog-api-key', apiKey),
+};
+
+/**
+ * Token an agent presents in place of an API key; it is only good while its session
+ * is live, and only for its model's provider. Agents also call smaller models of
+ * that provider for titles and summaries, so the token is not tied to one model.
+ */
+export async function createProxyToken(env: Env, sessionId: string, provider: ProviderId): Promise<string> {
+  return signValue(`${TOKEN_PREFIX}${provider}:${sessionId}`, env.SESSION_SECRET);
+}
+
+// Base URL for a provider's SDK inside the sandbox, e.g. "https://cloudx.sh/llm/openai/v1"
+export function proxyBaseUrl(env: Env, hostname: string, provider: ProviderId): string {
+  const origin = (env.LLM_PROXY_URL ?? `https://${hostname}/llm`).replace(/\/+$/, '');
+  return `${origin}/${provider}${PROVIDERS[provider].basePath}`;
+}
+
+// SDKs send the key in their provider's own header, or as ?key= for Google
+function readProxyToken(request: Request, url: URL): string | null {
+  const bearer = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return request.headers.get('x-api-key') ?? request.headers.get('x-goog-api-key') ?? bearer ?? url.searchParams.get('key');
+}
+
+// Errors use the shape the provider SDKs read a message from
+function proxyError(status: number, message: string): Response {
+  return Response.json({ type: 'error', error: { type: 'cloudx_proxy_error', message } }, { status });
+}
+
+// /llm/<provider>/<provider API path>, called by agents inside the sandbox
+export async function handleLlmProxy(request: Request, env: Env, ctx: ExecutionContext, url: URL): Promise<Response> {
+  const match = url.pathname.match(/^\/llm\/([^/]+)(\/.*)$/);
+  if (!match || !Object.hasOwn(PROVIDERS, match[1])) {
+    return proxyError(404, 'Unknown model provider');
+  }
+  const provider = match[1] as ProviderId;
+  const path = match[2];
+  if (request.method !== 'POST' || !METERED_ENDPOINTS[provider].test(path)) {
+    return proxyError(403, `${request.method} ${path} is not available through the cloudx.sh proxy`);
+  }
+
+  const token = readProxyToken(request, url);
+  const signed = token ? await verifySignedValue(token, env.SESSION_SECRET) : null;
+  if (!signed?.startsWith(TOKEN_PREFIX)) {
+    return proxyError(401, 'Invalid proxy token');
+  }
+  const [tokenProvider, sessionId] = signed.slice(TOKEN_PREFIX.length).split(':');
+  if (tokenProvider !== provider || !sessionId) {
+    return proxyError(403, `This session's model is not from ${PROVIDERS[provider].name}`);
+  }
+
+  const apiKey = PROVIDERS[provider].apiKey(env);
+  if (!apiKey) {
+    return proxyError(403, `${PROVIDERS[provider].name} models are not enabled on this deployment`);
+  }
+
+  const prepared = prepareBody(provider, path, await request.text());
+  // Google names the model in the path, e.g. /v1beta/models/gemini-2.5-pro:streamGenerateContent
+  const model = prepared.model ?? path.match(/\/models\/([^/:]+)/)?.[1];
+  const pricing = model ? modelPricing(provider, model) : null;
+  if (!pricing) {
+    return proxyError(403, model ? `Model ${model} is not allowed on this deployment` : 'The request does not name a model');
+  }
+
+  const store = getSessionStore(env, sessionId);
+  const reservationId = crypto.randomUUID();
+  const estimate = priceUsage(pricing, estimateTokens(prepared));
+  const refusal = await store.reserveSpend(reservationId, estimate.costUsd);
+  if (refusal) {
+    return proxyError(403, refusal);
+  }
+
+  const upstreamUrl = new URL(`${path}${url.search}`, PROVIDERS[provider].apiUrl);
+  upstreamUrl.searchParams.delete('key');
+  const headers = new Headers();
+  for (const [name, value] of request.headers) {
+    if (!DROPPED_HEADERS.includes(name) && !name.startsWith('cf-') && !name.startsWith('x-forwarded-')) {
+      headers.set(name, value);
+    }
+  }
+  KEY_HEADERS[provider](headers, apiKey);
+
+  let response: Response;
+  try {
+    response = await fetch(upstreamUrl, { method: request.method, headers, body: prepared.body });
+  } catch (e) {
+    ctx.waitUntil(store.settleSpend(reservationId, null));
+    throw e;
+  }
+  // Providers do not bill failed requests
+  if (!response.ok || !response.body) {
+    ctx.waitUntil(store.settleSpend(reservationId, null));
+    return response;
+  }
+
+  // The metered copy is read to the end even if the agent hangs up, as the provider bills the whole response.
+  // A response that reports no usage, e.g. one too large to buffer, is charged its estimate
+  const [agentBody, meteredBody] = response.body.tee();
+  ctx.waitUntil(
+    meterResponse(provider, meteredBody)
+      .catch((e) => {
+        console.error('Failed to meter model usage:', e);
+        return null;
+      })
+      .then((counts) => store.settleSpend(reservationId, counts ? priceUsage(pricing, counts) : estimate))
+      .catch((e) => console.error('Failed to record model usage:', e))
+  );
+  return new Response(agentBody, response);
+}
@@ -0,0 +1,11 @@
+/**
+ * Structured logging
+ *
+ * Informational log lines go out as one JSON object each, named by their event,
+ * so log search and Logpush can filter on their fields. Failures keep going to
+ * console.error with the error that caused them.
+ */
+
+export function logEvent(event: string, fields: Record<string, unknown>): void {
+  console.log(JSON.stringify({ event, ...fields }));
+}
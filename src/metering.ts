@@ -0,0 +1,271 @@
+/**
+ * Model usage metering
+ *
+ * Prices the model requests the LLM proxy forwards. Before a request goes out,
+ * its cost is estimated from its size and the output it may produce, and that
+ * estimate is held against the spend caps so concurrent requests cannot all
+ * slip under a cap. Once the response has been read, the hold is replaced with
+ * the usage the provider reported, or kept as the charge when it reported none.
+ */
+
+import type { ModelPricing } from './models';
+import type { Env, LlmUsage, ProviderId } from './types';
+
+const DEFAULT_SESSION_SPEND_CAP_USD = 10;
+const DEFAULT_DAILY_SPEND_CAP_USD = 25;
+
+// Non-streaming response bodies are buffered for metering up to this size
+const MAX_METERED_BODY = 10 * 1024 * 1024;
+
+// Output estimated for requests that do not cap it themselves
+const DEFAULT_MAX_OUTPUT_TOKENS = 32000;
+// JSON request bodies take at least this many characters per input token
+const CHARS_PER_TOKEN = 4;
+
+// Holds left over from requests whose worker went away before settling them stop counting after this
+const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+// Storage key prefix for holds, shared by the session store and the spend ledger
+export const RESERVATION_PREFIX = 'reservation:';
+
+export interface SpendCaps {
+  session: number;
+  // Per owner per UTC day, across all of their sessions
+  daily: number;
+}
+
+export interface TokenCounts {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+// An estimated cost held against the caps while its request is in flight
+export interface SpendReservation {
+  costUsd: number;
+  at: number;
+}
+
+// Read one response or stream event, returning the token counts it reports, if any
+type UsageReader = (event: unknown) => TokenCounts | null;
+
+function field(value: unknown, ...path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current ?? undefined;
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+const USAGE_READERS: Record<ProviderId, UsageReader> = {
+  // Streams report input in message_start and output in message_delta; cache writes are billed as input
+  anthropic: (event) => {
+    const usage = field(event, 'message', 'usage') ?? field(event, 'usage');
+    if (!usage) {
+      return null;
+    }
+    return {
+      input: count(field(usage, 'input_tokens')) + count(field(usage, 'cache_creation_input_tokens')),
+      cachedInput: count(field(usage, 'cache_read_input_tokens')),
+      output: count(field(usage, 'output_tokens')),
+    };
+  },
+  // Chat completions name their counts prompt/completion, the Responses API input/output; both include cached tokens
+  openai: (event) => {
+    const usage = field(event, 'response', 'usage') ?? field(event, 'usage');
+    if (!usage) {
+      return null;
+    }
+    const cached = count(field(usage, 'prompt_tokens_details', 'cached_tokens'))
+      + count(field(usage, 'input_tokens_details', 'cached_tokens'));
+    return {
+      input: count(field(usage, 'prompt_tokens')) + count(field(usage, 'input_tokens')) - cached,
+      cachedInput: cached,
+      output: count(field(usage, 'completion_tokens')) + count(field(usage, 'output_tokens')),
+    };
+  },
+  google: (event) => {
+    const usage = field(event, 'usageMetadata');
+    if (!usage) {
+      return null;
+    }
+    const cached = count(field(usage, 'cachedContentTokenCount'));
+    return {
+      input: count(field(usage, 'promptTokenCount')) - cached,
+      cachedInput: cached,
+      output: count(field(usage, 'candidatesTokenCount')) + count(field(usage, 'thoughtsTokenCount')),
+    };
+  },
+};
+
+// Where each provider's requests cap their output
+const MAX_OUTPUT_FIELDS: Record<ProviderId, string[][]> = {
+  anthropic: [['max_tokens']],
+  openai: [['max_completion_tokens'], ['max_output_tokens'], ['max_tokens']],
+  google: [['generationConfig', 'maxOutputTokens']],
+};
+
+function parseCap(value: string | undefined, fallback: number): number {
+  const cap = Number(value);
+  return Number.isFinite(cap) && cap > 0 ? cap : fallback;
+}
+
+export function spendCaps(env: Env): SpendCaps {
+  return {
+    session: parseCap(env.SESSION_SPEND_CAP_USD, DEFAULT_SESSION_SPEND_CAP_USD),
+    daily: parseCap(env.DAILY_SPEND_CAP_USD, DEFAULT_DAILY_SPEND_CAP_USD),
+  };
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// Reason no more requests may go out once spent and held back reaches a cap, or null while under it
+export function spendCapRefusal(caps: SpendCaps, cap: keyof SpendCaps, committedUsd: number): string | null {
+  if (committedUsd < caps[cap]) {
+    return null;
+  }
+  return cap === 'session'
+    ? `This session has reached its model spend cap of ${formatUsd(caps.session)}`
+    : `You have reached today's model spend cap of ${formatUsd(caps.daily)}`;
+}
+
+// Total of the holds still in flight, and the keys of the stale ones to delete
+export function outstandingReservations(
+  reservations: Map<string, SpendReservation>,
+  now = Date.now()
+): { reservedUsd: number; stale: string[] } {
+  let reservedUsd = 0;
+  const stale: string[] = [];
+  for (const [key, reservation] of reservations) {
+    if (reservation.at + RESERVATION_TTL_MS <= now) {
+      stale.push(key);
+    } else {
+      reservedUsd += reservation.costUsd;
+    }
+  }
+  return { reservedUsd, stale };
+}
+
+export interface PreparedRequest {
+  body: string;
+  model?: string;
+  maxOutputTokens?: number;
+}
+
+/**
+ * Read the model and output cap from a JSON request body. OpenAI chat streams
+ * only report usage when asked to, so streaming chat requests are rewritten to ask.
+ */
+export function prepareBody(provider: ProviderId, path: string, body: string): PreparedRequest {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return { body };
+  }
+  const model = field(payload, 'model');
+  const maxOutputTokens = MAX_OUTPUT_FIELDS[provider].map((fieldPath) => field(payload, ...fieldPath)).find((value) => typeof value === 'number');
+  const result: PreparedRequest = {
+    body,
+    model: typeof model === 'string' ? model : undefined,
+    maxOutputTokens: maxOutputTokens as number | undefined,
+  };
+  if (provider === 'openai' && path.endsWith('/chat/completions') && field(payload, 'stream') === true) {
+    const streamOptions = field(payload, 'stream_options');
+    result.body = JSON.stringify({
+      ...(payload as Record<string, unknown>),
+      stream_options: { ...(typeof streamOptions === 'object' ? streamOptions : {}), include_usage: true },
+    });
+  }
+  return result;
+}
+
+// Upper bound on what a request can use: every character of its body as input and all the output it allows
+export function estimateTokens(request: PreparedRequest): TokenCounts {
+  return {
+    input: Math.ceil(request.body.length / CHARS_PER_TOKEN),
+    cachedInput: 0,
+    output: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+  };
+}
+
+/**
+ * Total the token counts a response reports, from Server-Sent Events or a JSON
+ * body (Google streams a JSON array unless asked for SSE). Counts are cumulative
+ * within a response, so the highest of each is its total. Returns null when the
+ * response reports none, including JSON bodies too large to buffer.
+ */
+export async function meterResponse(provider: ProviderId, body: ReadableStream<Uint8Array>): Promise<TokenCounts | null> {
+  let totals: TokenCounts | null = null;
+  const read = (value: unknown) => {
+    for (const event of Array.isArray(value) ? value : [value]) {
+      const counts = USAGE_READERS[provider](event);
+      if (counts) {
+        totals = {
+          input: Math.max(totals?.input ?? 0, counts.input),
+          cachedInput: Math.max(totals?.cachedInput ?? 0, counts.cachedInput),
+          output: Math.max(totals?.output ?? 0, counts.output),
+        };
+      }
+    }
+  };
+  const readLine = (line: string) => {
+    const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+    if (data && data !== '[DONE]') {
+      try {
+        read(JSON.parse(data));
+      } catch {
+        // Not every event is JSON
+      }
+    }
+  };
+
+  let pending = '';
+  let whole = '';
+  let isEventStream = false;
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    if (!isEventStream && whole.length < MAX_METERED_BODY) {
+      whole += value;
+    }
+    const lines = (pending + value).split('\n');
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      isEventStream ||= line.startsWith('data:');
+      readLine(line);
+    }
+  }
+  readLine(pending);
+
+  if (!isEventStream) {
+    try {
+      read(JSON.parse(whole));
+    } catch {
+      // Not JSON, or too large to meter
+    }
+  }
+  return totals;
+}
+
+export function priceUsage(pricing: ModelPricing, counts: TokenCounts): LlmUsage {
+  return {
+    requests: 1,
+    inputTokens: counts.input,
+    cachedInputTokens: counts.cachedInput,
+    outputTokens: counts.output,
+    costUsd: (counts.input * pricing.input + counts.cachedInput * pricing.cachedInput + counts.output * pricing.output) / 1e6,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Launch and sandbox metrics
+ *
+ * Every audit event counts towards a counter by type and outcome, and its
+ * duration towards a latency histogram by phase. The registry keeps these
+ * totals in storage, so they survive restarts and agree across isolates, and
+ * /api/metrics renders them with the current session gauges in the Prometheus
+ * text exposition format.
+ */
+
+import type { AuditEvent, SessionStatus } from './types';
+
+// Upper bounds in seconds, from quick port exposures up to long dependency installs
+const DURATION_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+interface Histogram {
+  // Observations per bucket, not cumulative; one more than DURATION_BUCKETS for +Inf
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export interface MetricTotals {
+  // Keyed by "<type>:<outcome>"
+  events: Record<string, number>;
+  // Keyed by phase, i.e. audit event type
+  durations: Record<string, Histogram>;
+}
+
+export interface MetricGauges {
+  sessions: Partial<Record<SessionStatus, number>>;
+  warmSandboxes: { ready: number; starting: number };
+}
+
+export function emptyMetricTotals(): MetricTotals {
+  return { events: {}, durations: {} };
+}
+
+export function observeAuditEvent(totals: MetricTotals, event: AuditEvent): MetricTotals {
+  const key = `${event.type}:${event.success ? 'success' : 'failure'}`;
+  const seconds = event.durationMs / 1000;
+  const previous = totals.durations[event.type];
+  const histogram: Histogram = previous
+    ? { ...previous, buckets: [...previous.buckets] }
+    : { buckets: Array.from({ length: DURATION_BUCKETS.length + 1 }, () => 0), sum: 0, count: 0 };
+  const bucket = DURATION_BUCKETS.findIndex((bound) => seconds <= bound);
+  histogram.buckets[bucket === -1 ? DURATION_BUCKETS.length : bucket]++;
+  histogram.sum += seconds;
+  histogram.count++;
+
+  return {
+    events: { ...totals.events, [key]: (totals.events[key] ?? 0) + 1 },
+    durations: { ...totals.durations, [event.type]: histogram },
+  };
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(([name, value]) => `${name}="${value.replace(/["\\\n]/g, '\\$&')}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+export function renderMetrics(totals: MetricTotals, gauges: MetricGauges): string {
+  const lines = [
+    '# HELP cloudx_audit_events_total Audit events recorded, by type and outcome.',
+    '# TYPE cloudx_audit_events_total counter',
+  ];
+  for (const [key, count] of Object.entries(totals.events).sort()) {
+    const [type, outcome] = key.split(':');
+    lines.push(`cloudx_audit_events_total${labels({ type, outcome })} ${count}`);
+  }
+
+  lines.push(
+    '# HELP cloudx_phase_duration_seconds How long each launch and sandbox phase took.',
+    '# TYPE cloudx_phase_duration_seconds histogram'
+  );
+  for (const [phase, histogram] of Object.entries(totals.durations).sort()) {
+    let cumulative = 0;
+    DURATION_BUCKETS.forEach((bound, i) => {
+      cumulative += histogram.buckets[i];
+      lines.push(`cloudx_phase_duration_seconds_bucket${labels({ phase, le: String(bound) })} ${cumulative}`);
+    });
+    lines.push(
+      `cloudx_phase_duration_seconds_bucket${labels({ phase, le: '+Inf' })} ${histogram.count}`,
+      `cloudx_phase_duration_seconds_sum${labels({ phase })} ${histogram.sum}`,
+      `cloudx_phase_duration_seconds_count${labels({ phase })} ${histogram.count}`
+    );
+  }
+
+  lines.push('# HELP cloudx_sessions Sessions the registry holds, by status.', '# TYPE cloudx_sessions gauge');
+  for (const [status, count] of Object.entries(gauges.sessions).sort()) {
+    lines.push(`cloudx_sessions${labels({ status })} ${count}`);
+  }
+
+  lines.push(
+    '# HELP cloudx_warm_sandboxes Sandboxes in the warm pool, by state.',
+    '# TYPE cloudx_warm_sandboxes gauge',
+    `cloudx_warm_sandboxes${labels({ state: 'ready' })} ${gauges.warmSandboxes.ready}`,
+    `cloudx_warm_sandboxes${labels({ state: 'starting' })} ${gauges.warmSandboxes.starting}`
+  );
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,124 @@
+/**
+ * Model and provider allowlist
+ *
+ * Sessions may only use the models listed here. Each provider reads its API key
+ * from its own secret in Env, and models whose provider has no key configured
+ * are not offered. Keys stay in the worker: sandboxes reach the provider APIs
+ * through the LLM proxy, which prices usage with the list prices below.
+ */
+
+import type { Env, ProviderId } from './types';
+
+export interface ModelProvider {
+  id: ProviderId;
+  name: string;
+  apiKey: (env: Env) => string | undefined;
+  // API origin the LLM proxy forwards to
+  apiUrl: string;
+  // Path the provider's SDKs expect in their base URL, e.g. "/v1"
+  basePath: string;
+}
+
+// List prices in US dollars per million tokens
+export interface ModelPricing {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+export interface ModelInfo {
+  // Allowlist ID used in ?model= and .cloudx.json, e.g. "anthropic/claude-opus-4-5"
+  id: string;
+  provider: ProviderId;
+  // Model ID sent to the provider's API
+  model: string;
+  name: string;
+  pricing: ModelPricing;
+}
+
+export const PROVIDERS: Record<ProviderId, ModelProvider> = {
+  anthropic: {
+    id: 'anthropic',
+    name: 'Anthropic',
+    apiKey: (env) => env.ANTHROPIC_API_KEY,
+    apiUrl: 'https://api.anthropic.com',
+    basePath: '',
+  },
+  openai: {
+    id: 'openai',
+    name: 'OpenAI',
+    apiKey: (env) => env.OPENAI_API_KEY,
+    apiUrl: 'https://api.openai.com',
+    basePath: '/v1',
+  },
+  google: {
+    id: 'google',
+    name: 'Google',
+    apiKey: (env) => env.GOOGLE_API_KEY,
+    apiUrl: 'https://generativelanguage.googleapis.com',
+    basePath: '/v1beta',
+  },
+};
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: 'anthropic/claude-opus-4-5',
+    provider: 'anthropic',
+    model: 'claude-opus-4-5',
+    name: 'Claude Opus 4.5',
+    pricing: { input: 5, cachedInput: 0.5, output: 25 },
+  },
+  {
+    id: 'anthropic/claude-sonnet-4-5',
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5',
+    name: 'Claude Sonnet 4.5',
+    pricing: { input: 3, cachedInput: 0.3, output: 15 },
+  },
+  {
+    id: 'anthropic/claude-haiku-4-5',
+    provider: 'anthropic',
+    model: 'claude-haiku-4-5',
+    name: 'Claude Haiku 4.5',
+    pricing: { input: 1, cachedInput: 0.1, output: 5 },
+  },
+  {
+    id: 'openai/gpt-5',
+    provider: 'openai',
+    model: 'gpt-5',
+    name: 'GPT-5',
+    pricing: { input: 1.25, cachedInput: 0.125, output: 10 },
+  },
+  {
+    id: 'google/gemini-2.5-pro',
+    provider: 'google',
+    model: 'gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    pricing: { input: 1.25, cachedInput: 0.31, output: 10 },
+  },
+];
+
+export const DEFAULT_MODEL = 'anthropic/claude-opus-4-5';
+
+export function getModel(id: string): ModelInfo | undefined {
+  return MODELS.find((model) => model.id === id);
+}
+
+export function isModelAvailable(env: Env, model: ModelInfo): boolean {
+  return Boolean(PROVIDERS[model.provider].apiKey(env));
+}
+
+// Models that can be launched with the secrets this deployment has
+export function availableModels(env: Env): ModelInfo[] {
+  return MODELS.filter((model) => isModelAvailable(env, model));
+}
+
+/**
+ * Price for a model ID as sent to the provider, or null when the model is not on the
+ * allowlist, as its price is unknown. Dated IDs such as "claude-haiku-4-5-20251001"
+ * match their alias.
+ */
+export function modelPricing(provider: ProviderId, model: string): ModelPricing | null {
+  const match = MODELS.find((info) => info.provider === provider && (model === info.model || model.startsWith(`${info.model}-`)));
+  return match?.pricing ?? null;
+}
@@ -0,0 +1,69 @@
+/**
+ * OpenCode agent backend
+ *
+ * Runs `opencode serve`, whose web UI is the session's editor and chat.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { AgentBackend, AgentConfig } from './agents';
+import { type SupervisedProcess, startSupervised, waitForPort } from './supervisor';
+
+export const OPENCODE_PORT = 4096;
+
+const OPENCODE_CONFIG_DIR = '/root/.config/opencode';
+
+const OPENCODE: SupervisedProcess = {
+  label: 'OpenCode',
+  command: `opencode serve --port ${OPENCODE_PORT}`,
+  port: OPENCODE_PORT,
+  logFile: '/tmp/opencode.log',
+};
+
+// The global configuration keeps the proxy token out of the repository, where commits and exports would pick it up
+async function writeOpenCodeConfig(sandbox: Sandbox, config: AgentConfig): Promise<void> {
+  const content = JSON.stringify({
+    provider: {
+      [config.model.provider]: {
+        options: {
+          apiKey: config.apiKey,
+          baseURL: config.baseUrl,
+        },
+      },
+    },
+    model: {
+      provider: config.model.provider,
+      model: config.model.model,
+    },
+  }, null, 2);
+  await sandbox.mkdir(OPENCODE_CONFIG_DIR, { recursive: true });
+  await sandbox.writeFile(`${OPENCODE_CONFIG_DIR}/opencode.json`, content);
+}
+
+// Attach a file to the OpenCode prompt so the session starts with it in context
+async function openFileInOpenCode(sandbox: Sandbox, filePath: string): Promise<void> {
+  try {
+    // Pass the payload through a file rather than interpolating the path into the command
+    await sandbox.writeFile('/tmp/opencode-open-file.json', JSON.stringify({ text: `@${filePath} ` }));
+    await sandbox.exec(
+      `curl -sf -X POST -H "Content-Type: application/json" --data @/tmp/opencode-open-file.json http://localhost:${OPENCODE_PORT}/tui/append-prompt`,
+      { timeout: 10000 }
+    );
+  } catch (e) {
+    console.error('Failed to open file in OpenCode:', e);
+  }
+}
+
+export const openCodeBackend: AgentBackend = {
+  id: 'opencode',
+  name: OPENCODE.label,
+  port: OPENCODE.port,
+  logFile: OPENCODE.logFile,
+  providers: ['anthropic', 'openai', 'google'],
+  workspaceFiles: [],
+  writeConfig: writeOpenCodeConfig,
+  start: (sandbox, workDir) => startSupervised(sandbox, workDir, OPENCODE),
+  waitUntilReady: (sandbox, onPoll) => waitForPort(sandbox, OPENCODE, onPoll),
+  // The quoted substitution passes the file's content as one argument without evaluating it
+  taskCommand: (promptFile) => `opencode run "$(cat ${promptFile})"`,
+  openFile: openFileInOpenCode,
+};
@@ -0,0 +1,149 @@
+/**
+ * Prebuild cache in R2
+ *
+ * After a cold launch has cloned a repository and every setup step succeeded,
+ * the workspace is archived under the repository and commit it was set up at,
+ * together with the toolchain directories setup installs into outside it. A
+ * later launch at the same commit unpacks that archive instead of cloning and
+ * running setup again. Archives are streamed between the sandbox and the bucket
+ * in parts, so their size is not bounded by the worker's memory.
+ */
+
+import type { ExecutionSession, Sandbox } from '@cloudflare/sandbox';
+import { uploadArchive, writeArchiveParts } from './archives';
+import { gitHostForCloneUrl } from './git-hosts';
+import { REPO_DIR } from './setup';
+import type { Env, RepoRef } from './types';
+
+const PREBUILD_ARCHIVE = '/tmp/cloudx-prebuild.tar.gz';
+const PREBUILD_PARTS_DIR = '/tmp/cloudx-prebuild.parts';
+
+// Installed runtimes and module caches that setup leaves outside the repository
+const TOOLCHAIN_DIRS = ['/home/user/.local/share/mise', '/home/user/go/pkg/mod', '/home/user/.cargo/registry'];
+
+const MAX_PREBUILD_BYTES = 1024 * 1024 * 1024;
+
+const COMMIT_SHA_REGEX = /^[0-9a-f]{40}$/;
+
+export interface PrebuildInfo {
+  repo: string;
+  commit: string;
+  subdirectory?: string;
+  size: number;
+  createdAt: number;
+}
+
+// Sparse checkouts of a monorepo directory are prebuilt apart from the whole repository
+function prebuildKey(repo: string, commit: string, subdirectory?: string): string {
+  return `prebuilds/${repo}@${commit}${subdirectory ? `:${subdirectory}` : ''}.tar.gz`;
+}
+
+/**
+ * Resolve the commit a launch will check out without cloning, so the cache can
+ * be consulted first. Returns null when it cannot be known up front, e.g. for
+ * abbreviated commit SHAs. Runs in the git session for private repositories.
+ */
+export async function resolveRemoteCommit(
+  git: Sandbox | ExecutionSession,
+  repoUrl: string,
+  ref?: RepoRef
+): Promise<string | null> {
+  if (ref?.type === 'commit') {
+    return COMMIT_SHA_REGEX.test(ref.name) ? ref.name : null;
+  }
+
+  // Ref names were validated in parseRepoRef. A branch name may also be a tag, as it is for
+  // the clone; a branch of that name wins, and annotated tags resolve to the commit they point at
+  const pullRefspec = gitHostForCloneUrl(repoUrl)?.pullRefspec;
+  const refs = !ref
+    ? ['HEAD']
+    : ref.type === 'branch'
+      ? [`refs/heads/${ref.name}`, `refs/tags/${ref.name}^{}`, `refs/tags/${ref.name}`]
+      : pullRefspec ? [pullRefspec(ref.name)] : [];
+  if (refs.length === 0) {
+    return null;
+  }
+
+  const result = await git.exec(`git ls-remote '${repoUrl}' ${refs.map((name) => `'${name}'`).join(' ')}`, { timeout: 60000 });
+  if (!result.success) {
+    return null;
+  }
+  const listed = new Map(result.stdout.trim().split('\n').map((line) => {
+    const [commit, name] = line.split('\t');
+    return [name, commit] as const;
+  }));
+  const commit = refs.map((name) => listed.get(name)).find(Boolean);
+  return commit && COMMIT_SHA_REGEX.test(commit) ? commit : null;
+}
+
+export async function findPrebuild(
+  env: Env,
+  repo: string,
+  commit: string,
+  subdirectory?: string
+): Promise<PrebuildInfo | null> {
+  const object = await env.SNAPSHOTS.head(prebuildKey(repo, commit, subdirectory));
+  return object ? { repo, commit, subdirectory, size: object.size, createdAt: object.uploaded.getTime() } : null;
+}
+
+/**
+ * Archive the set-up workspace and upload it. Returns null when the archive is
+ * over MAX_PREBUILD_BYTES, in which case the repository simply stays cold.
+ */
+export async function savePrebuild(
+  env: Env,
+  sandbox: Sandbox,
+  repo: string,
+  commit: string,
+  subdirectory?: string
+): Promise<PrebuildInfo | null> {
+  const dirs = [REPO_DIR, ...TOOLCHAIN_DIRS].map((dir) => dir.slice(1));
+  const result = await sandbox.exec(
+    [
+      'set -e',
+      `rm -f ${PREBUILD_ARCHIVE}`,
+      `dirs=""; for dir in ${dirs.join(' ')}; do if [ -e "/$dir" ]; then dirs="$dirs $dir"; fi; done`,
+      `tar -czf ${PREBUILD_ARCHIVE} -C / $dirs`,
+      `wc -c < ${PREBUILD_ARCHIVE}`,
+    ].join('\n'),
+    { timeout: 600000 }
+  );
+  if (!result.success) {
+    throw new Error(`Failed to archive workspace: ${result.stderr.trim()}`);
+  }
+
+  const size = Number(result.stdout.trim());
+  if (size > MAX_PREBUILD_BYTES) {
+    await sandbox.exec(`rm -f ${PREBUILD_ARCHIVE}`, { timeout: 10000 });
+    return null;
+  }
+
+  let object: R2Object;
+  try {
+    object = await uploadArchive(env, sandbox, PREBUILD_ARCHIVE, size, prebuildKey(repo, commit, subdirectory), {
+      httpMetadata: { contentType: 'application/gzip' },
+      customMetadata: { repo, commit, ...(subdirectory ? { subdirectory } : {}) },
+    });
+  } finally {
+    await sandbox.exec(`rm -f ${PREBUILD_ARCHIVE}`, { timeout: 10000 });
+  }
+  return { repo, commit, subdirectory, size, createdAt: object.uploaded.getTime() };
+}
+
+// Unpack a prebuild in place of a clone; the repository keeps the origin it was cloned from
+export async function restorePrebuild(env: Env, sandbox: Sandbox, prebuild: PrebuildInfo): Promise<void> {
+  const object = await env.SNAPSHOTS.get(prebuildKey(prebuild.repo, prebuild.commit, prebuild.subdirectory));
+  if (!object) {
+    throw new Error(`Prebuild of ${prebuild.commit} no longer exists`);
+  }
+
+  await writeArchiveParts(sandbox, object.body, PREBUILD_PARTS_DIR);
+
+  const result = await sandbox.exec(
+    `set -e\ncat ${PREBUILD_PARTS_DIR}/* | tar -xzf - -C /\nrm -rf ${PREBUILD_PARTS_DIR}`,
+    { timeout: 600000 }
+  );
+  if (!result.success) {
+    throw new Error(`Failed to unpack prebuild of ${prebuild.commit}: ${result.stderr.trim()}`);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Dev server previews
+ *
+ * Ports declared in the repo config are exposed once the agent is up and stay
+ * exposed for the life of the session. Anything else the agent starts, such as
+ * `npm run dev` on 5173, is found by reading the sandbox's listening sockets:
+ * new ports are exposed as detected previews and unexposed again once nothing
+ * listens on them. The session page syncs while it is open and the cron syncs
+ * every running session.
+ */
+
+import { getSandbox } from '@cloudflare/sandbox';
+import { auditPhase } from './audit';
+import { RESERVED_PORTS } from './repo-config';
+import { getSessionRegistry } from './session-registry';
+import { getSessionStore, loadSessions } from './session-store';
+import type { Env, PreviewInfo, SessionInfo } from './types';
+
+// Detected previews per session, on top of the configured ones
+const MAX_DETECTED_PORTS = 10;
+
+// Ports from here up are handed out by the kernel to outgoing connections and short-lived helpers
+const EPHEMERAL_PORT_START = 32768;
+
+// /proc/net/tcp state code for a listening socket
+const TCP_LISTEN = '0A';
+
+/**
+ * Ports something in the sandbox is listening on, read from /proc/net/tcp{,6}.
+ * Each socket line is "sl local_address rem_address st ...", with the local
+ * address as hex "IP:PORT".
+ */
+async function listListeningPorts(env: Env, sessionId: string): Promise<number[]> {
+  const sandbox = getSandbox(env.SANDBOX, sessionId);
+  const result = await sandbox.exec('cat /proc/net/tcp /proc/net/tcp6 2>/dev/null', { timeout: 10000 });
+  const ports = new Set<number>();
+  for (const line of result.stdout.split('\n')) {
+    const [, localAddress, , state] = line.trim().split(/\s+/);
+    if (state !== TCP_LISTEN || !localAddress) {
+      continue;
+    }
+    const port = parseInt(localAddress.slice(localAddress.lastIndexOf(':') + 1), 16);
+    if (port >= 1024 && port < EPHEMERAL_PORT_START && !RESERVED_PORTS.has(port)) {
+      ports.add(port);
+    }
+  }
+  return [...ports].sort((a, b) => a - b);
+}
+
+/**
+ * Bring a running session's detected previews in line with the ports listening
+ * in its sandbox, returning its previews afterwards.
+ */
+export async function syncPreviews(env: Env, info: SessionInfo): Promise<PreviewInfo[]> {
+  const previews = info.previews ?? [];
+  if (info.status !== 'running' || info.task || !info.hostname) {
+    return previews;
+  }
+
+  const { hostname } = info;
+  const sandbox = getSandbox(env.SANDBOX, info.id);
+  const store = getSessionStore(env, info.id);
+  const listening = await listListeningPorts(env, info.id);
+  let current = info;
+
+  for (const preview of previews) {
+    if (preview.detected && !listening.includes(preview.port)) {
+      try {
+        await sandbox.unexposePort(preview.port);
+      } catch (e) {
+        console.error(`Failed to unexpose port ${preview.port}:`, e);
+      }
+      current = await store.removePreview(preview.port);
+    }
+  }
+
+  const known = new Set(previews.map((preview) => preview.port));
+  let detected = (current.previews ?? []).filter((preview) => preview.detected).length;
+  for (const port of listening) {
+    if (known.has(port) || detected >= MAX_DETECTED_PORTS) {
+      continue;
+    }
+    try {
+      const { url } = await auditPhase(env, info.id, 'expose', `port ${port}`, () =>
+        sandbox.exposePort(port, { hostname, name: `port-${port}` }));
+      current = await store.addPreview({ port, url, detected: true });
+      detected++;
+    } catch (e) {
+      console.error(`Failed to expose port ${port}:`, e);
+    }
+  }
+  return current.previews ?? [];
+}
+
+// Run by the cron so previews come and go even while nobody has the session page open
+export async function syncAllPreviews(env: Env): Promise<void> {
+  const sessions = await loadSessions(env, await getSessionRegistry(env).listRunningSessions());
+  for (const info of sessions) {
+    try {
+      await syncPreviews(env, info);
+    } catch (e) {
+      console.error(`Failed to sync previews of session ${info.id}:`, e);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Launch rate limits and repository access lists
+ *
+ * Every launch and task submission creates a sandbox running on the
+ * deployment's API keys, so each is counted against the client IP, the visitor
+ * and a global daily launch budget. Counters are fixed windows held by one
+ * RateLimiter Durable Object per key; a denied request is told when its window
+ * resets, and counts against none of them. Operators can also restrict which repositories may be launched at all.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { Env } from './types';
+
+const HOUR_MS = 3600 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const DEFAULT_LAUNCHES_PER_IP_PER_HOUR = 10;
+const DEFAULT_LAUNCHES_PER_OWNER_PER_HOUR = 20;
+const DEFAULT_DAILY_LAUNCH_BUDGET = 500;
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the window resets, when not allowed
+  retryAfter: number;
+}
+
+export interface LaunchLimit {
+  message: string;
+  retryAfter: number;
+}
+
+export class RateLimiter extends DurableObject<Env> {
+  // Whether a hit would be allowed now, without counting one
+  async check(limit: number, windowMs: number): Promise<RateLimitResult> {
+    const { count, resetAt } = await this.currentWindow(windowMs);
+    return count >= limit
+      ? { allowed: false, retryAfter: Math.ceil((resetAt - Date.now()) / 1000) }
+      : { allowed: true, retryAfter: 0 };
+  }
+
+  // Count one hit in the current window, unless the limit has already been reached
+  async hit(limit: number, windowMs: number): Promise<RateLimitResult> {
+    const { key, start, count, resetAt } = await this.currentWindow(windowMs);
+    if (count >= limit) {
+      return { allowed: false, retryAfter: Math.ceil((resetAt - Date.now()) / 1000) };
+    }
+
+    await this.ctx.storage.put(key, { start, count: count + 1 });
+    // Nothing needs to outlive the window, so idle keys do not accumulate storage
+    const alarm = await this.ctx.storage.getAlarm();
+    if (alarm === null || alarm < resetAt) {
+      await this.ctx.storage.setAlarm(resetAt);
+    }
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  // Take back a hit counted in the current window, for a request another limit then denied
+  async undo(windowMs: number): Promise<void> {
+    const { key, start, count } = await this.currentWindow(windowMs);
+    if (count > 0) {
+      await this.ctx.storage.put(key, { start, count: count - 1 });
+    }
+  }
+
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+
+  private async currentWindow(windowMs: number): Promise<{ key: string; start: number; count: number; resetAt: number }> {
+    const start = Math.floor(Date.now() / windowMs) * windowMs;
+    const key = `window:${windowMs}`;
+    const current = await this.ctx.storage.get<Window>(key);
+    return { key, start, count: current?.start === start ? current.count : 0, resetAt: start + windowMs };
+  }
+}
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+function formatWait(seconds: number): string {
+  return seconds < 120 ? `${seconds} seconds` : seconds < 7200 ? `${Math.ceil(seconds / 60)} minutes` : `${Math.ceil(seconds / 3600)} hours`;
+}
+
+/**
+ * Count a launch against the client IP, the visitor and the daily launch budget.
+ * Returns the first limit that was hit, or null when the launch may go ahead. All
+ * limits are checked before any is counted, so a denied launch uses up no quota.
+ */
+export async function checkLaunchLimits(env: Env, request: Request, ownerId: string): Promise<LaunchLimit | null> {
+  const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+  const checks = [
+    {
+      key: `ip:${ip}`,
+      limit: parseLimit(env.LAUNCHES_PER_IP_PER_HOUR, DEFAULT_LAUNCHES_PER_IP_PER_HOUR),
+      windowMs: HOUR_MS,
+      message: 'Too many launches from your network',
+    },
+    {
+      key: `owner:${ownerId}`,
+      limit: parseLimit(env.LAUNCHES_PER_OWNER_PER_HOUR, DEFAULT_LAUNCHES_PER_OWNER_PER_HOUR),
+      windowMs: HOUR_MS,
+      message: 'You have launched too many sandboxes',
+    },
+    {
+      key: 'global',
+      limit: parseLimit(env.DAILY_LAUNCH_BUDGET, DEFAULT_DAILY_LAUNCH_BUDGET),
+      windowMs: DAY_MS,
+      message: 'cloudx.sh has used up its launch budget for today',
+    },
+  ].map((check) => ({ ...check, limiter: env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(check.key)) }));
+  const denied = ({ message }: { message: string }, { retryAfter }: RateLimitResult): LaunchLimit => ({
+    message: `${message}. Try again in ${formatWait(retryAfter)}.`,
+    retryAfter,
+  });
+
+  const results = await Promise.all(checks.map(({ limiter, limit, windowMs }) => limiter.check(limit, windowMs)));
+  const first = results.findIndex((result) => !result.allowed);
+  if (first !== -1) {
+    return denied(checks[first], results[first]);
+  }
+
+  // A concurrent launch may have taken the last hit since the check; the hits counted before it are taken back
+  for (const [index, check] of checks.entries()) {
+    const result = await check.limiter.hit(check.limit, check.windowMs);
+    if (!result.allowed) {
+      await Promise.all(checks.slice(0, index).map(({ limiter, windowMs }) => limiter.undo(windowMs)));
+      return denied(check, result);
+    }
+  }
+  return null;
+}
+
+// Entries are owners ("octocat"), repositories ("octocat/hello-world") or, for repositories off GitHub,
+// hosts and groups ("gitlab.com", "gitlab.com/group"), compared case-insensitively
+function parseRepoList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((entry) => entry.trim().toLowerCase().replace(/\/+$/, '')).filter(Boolean);
+}
+
+function matchesRepoList(list: string[], repoFullName: string): boolean {
+  const repo = repoFullName.toLowerCase();
+  return list.some((entry) => entry === repo || repo.startsWith(`${entry}/`));
+}
+
+// The access lists as entries are matched, for the admin dashboard
+export function repoAccessLists(env: Env): { allowed: string[]; blocked: string[] } {
+  return { allowed: parseRepoList(env.ALLOWED_REPOS), blocked: parseRepoList(env.BLOCKED_REPOS) };
+}
+
+// Reason a repository may not be launched on this deployment, or null when it may
+export function checkRepoAllowed(env: Env, repoFullName: string): string | null {
+  if (matchesRepoList(parseRepoList(env.BLOCKED_REPOS), repoFullName)) {
+    return `${repoFullName} cannot be launched on this deployment`;
+  }
+  const allowed = parseRepoList(env.ALLOWED_REPOS);
+  if (allowed.length > 0 && !matchesRepoList(allowed, repoFullName)) {
+    return `Only selected repositories can be launched on this deployment, and ${repoFullName} is not one of them`;
+  }
+  return null;
+}
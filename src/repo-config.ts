@@ -0,0 +1,178 @@
+/**
+ * Per-repository launch configuration
+ *
+ * Repositories can commit a .cloudx.json, .cloudx.yml or .cloudx.yaml file to
+ * tell cloudx.sh how to boot them. The file is validated field by field; when
+ * it is invalid the launch continues with defaults and the errors are shown on
+ * the session page.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import { parse as parseYaml } from 'yaml';
+import { AGENT_BACKENDS, isAgentId } from './agents';
+import { MODELS, getModel } from './models';
+import { TERMINAL_PORT } from './terminal';
+import type { AgentId } from './types';
+
+export interface PortConfig {
+  port: number;
+  label?: string;
+}
+
+export interface RepoConfig {
+  // Extra commands run after the automatically detected setup steps
+  setup: string[];
+  // Environment variable names the user is asked to provide
+  env: string[];
+  // Ports exposed as previews once the agent is running
+  ports: PortConfig[];
+  // Model allowlist ID, see src/models.ts
+  model?: string;
+  agent?: AgentId;
+  submodules: boolean;
+  // 0 fetches the full history
+  depth?: number;
+}
+
+export const CONFIG_FILES = ['.cloudx.json', '.cloudx.yml', '.cloudx.yaml'];
+
+export const DEFAULT_REPO_CONFIG: RepoConfig = {
+  setup: [],
+  env: [],
+  ports: [],
+  submodules: false,
+};
+
+const KNOWN_KEYS = new Set(['setup', 'env', 'ports', 'model', 'agent', 'submodules', 'depth']);
+export const ENV_NAME_REGEX = /^[A-Z_][A-Z0-9_]{0,63}$/;
+const MAX_SETUP_COMMANDS = 20;
+const MAX_PORTS = 10;
+
+// Ports the sandbox and cloudx.sh listen on themselves, with what uses them
+export const RESERVED_PORTS = new Map<number, string>([
+  [3000, 'the sandbox control plane'],
+  [8787, 'local development of the worker'],
+  ...Object.values(AGENT_BACKENDS).map((backend): [number, string] => [backend.port, backend.name]),
+  [TERMINAL_PORT, 'the in-browser terminal'],
+]);
+
+export function validateRepoConfig(raw: unknown): { config: RepoConfig; errors: string[] } {
+  const errors: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { config: DEFAULT_REPO_CONFIG, errors: ['Configuration must be an object'] };
+  }
+  const input = raw as Record<string, unknown>;
+
+  for (const key of Object.keys(input)) {
+    if (!KNOWN_KEYS.has(key)) {
+      errors.push(`Unknown key "${key}"`);
+    }
+  }
+
+  const config: RepoConfig = { ...DEFAULT_REPO_CONFIG };
+
+  if (input.setup !== undefined) {
+    if (!Array.isArray(input.setup) || !input.setup.every((command) => typeof command === 'string' && command.trim())) {
+      errors.push('"setup" must be a list of non-empty commands');
+    } else if (input.setup.length > MAX_SETUP_COMMANDS) {
+      errors.push(`"setup" may contain at most ${MAX_SETUP_COMMANDS} commands`);
+    } else {
+      config.setup = input.setup;
+    }
+  }
+
+  if (input.env !== undefined) {
+    if (!Array.isArray(input.env) || !input.env.every((name) => typeof name === 'string' && ENV_NAME_REGEX.test(name))) {
+      errors.push('"env" must be a list of variable names such as DATABASE_URL');
+    } else {
+      config.env = input.env;
+    }
+  }
+
+  if (input.ports !== undefined) {
+    const ports = Array.isArray(input.ports) ? input.ports.map(parsePort) : null;
+    const reserved = ports?.flatMap((entry) => (entry && RESERVED_PORTS.has(entry.port) ? [entry.port] : [])) ?? [];
+    if (!ports || ports.includes(null)) {
+      errors.push('"ports" must be a list of port numbers (1024-65535) or { port, label } objects');
+    } else if (reserved.length > 0) {
+      errors.push(...reserved.map((port) => `"ports" cannot include ${port}, it is reserved for ${RESERVED_PORTS.get(port)}`));
+    } else if (ports.length > MAX_PORTS) {
+      errors.push(`"ports" may contain at most ${MAX_PORTS} entries`);
+    } else {
+      config.ports = ports as PortConfig[];
+    }
+  }
+
+  if (input.model !== undefined) {
+    if (typeof input.model !== 'string' || !getModel(input.model)) {
+      errors.push(`"model" must be one of: ${MODELS.map((model) => model.id).join(', ')}`);
+    } else {
+      config.model = input.model;
+    }
+  }
+
+  if (input.agent !== undefined) {
+    if (typeof input.agent !== 'string' || !isAgentId(input.agent)) {
+      errors.push(`"agent" must be one of: ${Object.keys(AGENT_BACKENDS).join(', ')}`);
+    } else {
+      config.agent = input.agent;
+    }
+  }
+
+  if (input.submodules !== undefined) {
+    if (typeof input.submodules !== 'boolean') {
+      errors.push('"submodules" must be true or false');
+    } else {
+      config.submodules = input.submodules;
+    }
+  }
+
+  if (input.depth !== undefined) {
+    if (typeof input.depth !== 'number' || !Number.isInteger(input.depth) || input.depth < 0) {
+      errors.push('"depth" must be a non-negative integer (0 for the full history)');
+    } else {
+      config.depth = input.depth;
+    }
+  }
+
+  // An invalid file is ignored as a whole so a typo cannot half-apply
+  return errors.length ? { config: DEFAULT_REPO_CONFIG, errors } : { config, errors };
+}
+
+function parsePort(value: unknown): PortConfig | null {
+  const entry = typeof value === 'number' ? { port: value } : value;
+  if (typeof entry !== 'object' || entry === null) {
+    return null;
+  }
+  const { port, label } = entry as Record<string, unknown>;
+  if (typeof port !== 'number' || !Number.isInteger(port) || port < 1024 || port > 65535) {
+    return null;
+  }
+  if (label !== undefined && (typeof label !== 'string' || label.length > 50)) {
+    return null;
+  }
+  return label === undefined ? { port } : { port, label };
+}
+
+export async function loadRepoConfig(
+  sandbox: Sandbox,
+  workDir: string,
+  files: Set<string>
+): Promise<{ config: RepoConfig; file?: string; errors: string[] }> {
+  const file = CONFIG_FILES.find((name) => files.has(name));
+  if (!file) {
+    return { config: DEFAULT_REPO_CONFIG, errors: [] };
+  }
+
+  let raw: unknown;
+  try {
+    const { content } = await sandbox.readFile(`${workDir}/${file}`);
+    raw = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    return { config: DEFAULT_REPO_CONFIG, file, errors: [`Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const { config, errors } = validateRepoConfig(raw);
+  return { config, file, errors: errors.map((error) => `${file}: ${error}`) };
+}
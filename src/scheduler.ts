@@ -0,0 +1,94 @@
+/**
+ * Sandbox admission policy
+ *
+ * Launches and headless tasks are queued in the session registry and only get
+ * a sandbox once a slot is free, so demand beyond the container limit waits in
+ * line instead of failing. Interactive sessions go ahead of tasks, and within
+ * each lane owners take turns, so one user's batch of launches cannot hold
+ * everyone else back.
+ */
+
+import type { Env, SessionInfo } from './types';
+
+export interface SchedulerLimits {
+  // Sandboxes that may exist at once; keep in line with the container max_instances
+  capacity: number;
+  // Sandboxes one owner may hold at once
+  perOwner: number;
+}
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+export function schedulerLimits(env: Env): SchedulerLimits {
+  const capacity = parseLimit(env.SANDBOX_CAPACITY, 1);
+  return { capacity, perOwner: parseLimit(env.SANDBOX_CAPACITY_PER_OWNER, capacity) };
+}
+
+// Sessions hold a slot from admission until their sandbox has been destroyed
+export function holdsSlot(info: Pick<SessionInfo, 'status' | 'destroyedAt'>): boolean {
+  return info.status !== 'queued' && !info.destroyedAt;
+}
+
+/**
+ * Order queued sessions for admission. Each pick goes to the owner holding the
+ * fewest slots, counting the picks before it, so owners alternate; ties go to
+ * the longest waiting session.
+ */
+export function admissionOrder<T extends Pick<SessionInfo, 'owner' | 'createdAt' | 'task'>>(
+  queued: T[],
+  held: Map<string, number>
+): T[] {
+  const slots = new Map(held);
+  const remaining = [...queued].sort((a, b) => a.createdAt - b.createdAt);
+  const order: T[] = [];
+
+  for (const lane of [remaining.filter((info) => !info.task), remaining.filter((info) => info.task)]) {
+    while (lane.length > 0) {
+      let next = 0;
+      for (let i = 1; i < lane.length; i++) {
+        if ((slots.get(lane[i].owner) ?? 0) < (slots.get(lane[next].owner) ?? 0)) {
+          next = i;
+        }
+      }
+      const [info] = lane.splice(next, 1);
+      slots.set(info.owner, (slots.get(info.owner) ?? 0) + 1);
+      order.push(info);
+    }
+  }
+  return order;
+}
+
+export interface AdmissionPlan<T> {
+  admit: T[];
+  // Sessions left in line, with their place in it
+  waiting: Array<{ info: T; position: number }>;
+}
+
+/**
+ * Decide which queued sessions get the free slots, given the slots each owner
+ * holds and the total in use, pooled sandboxes included. Sessions are considered
+ * in admission order; one whose owner is at their limit waits without holding
+ * back those behind it.
+ */
+export function planAdmission<T extends Pick<SessionInfo, 'owner' | 'createdAt' | 'task'>>(
+  queued: T[],
+  held: Map<string, number>,
+  used: number,
+  limits: SchedulerLimits
+): AdmissionPlan<T> {
+  const slots = new Map(held);
+  const plan: AdmissionPlan<T> = { admit: [], waiting: [] };
+  for (const info of admissionOrder(queued, held)) {
+    if (used >= limits.capacity || (slots.get(info.owner) ?? 0) >= limits.perOwner) {
+      plan.waiting.push({ info, position: plan.waiting.length + 1 });
+      continue;
+    }
+    slots.set(info.owner, (slots.get(info.owner) ?? 0) + 1);
+    used++;
+    plan.admit.push(info);
+  }
+  return plan;
+}
@@ -0,0 +1,134 @@
+/**
+ * Per-user secrets
+ *
+ * Visitors store named values such as NPM_TOKEN once and pick which of them to
+ * inject into a session. Values are encrypted with AES-GCM under SECRETS_KEY
+ * before they reach KV, with the owner and name bound in as additional data so a
+ * ciphertext cannot be replayed under another owner or name. Each secret is its
+ * own KV entry, so changes to different secrets never overwrite each other, with
+ * its update time in the entry's metadata so listing reads no values. Values are
+ * only ever decrypted to be written into a sandbox; the API and the session page
+ * list names alone.
+ */
+
+import type { Env } from './types';
+
+export const MAX_SECRETS = 50;
+export const SECRET_VALUE_MAX_LENGTH = 4096;
+
+const IV_LENGTH = 12;
+
+export interface SecretInfo {
+  name: string;
+  updatedAt: number;
+}
+
+// Metadata of a secret's KV entry, whose value is base64 of the IV followed by the ciphertext
+interface SecretMetadata {
+  updatedAt: number;
+}
+
+export function isSecretsConfigured(env: Env): boolean {
+  return Boolean(env.SECRETS_KEY);
+}
+
+// Secret names cannot contain colons, so an owner's prefix never matches another owner's secrets
+function secretsPrefix(owner: string): string {
+  return `secret:${owner}:`;
+}
+
+function secretKey(owner: string, name: string): string {
+  return `${secretsPrefix(owner)}${name}`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function importKey(env: Env): Promise<CryptoKey> {
+  if (!env.SECRETS_KEY) {
+    throw new Error('SECRETS_KEY is not configured');
+  }
+  return crypto.subtle.importKey('raw', fromBase64(env.SECRETS_KEY), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+function additionalData(owner: string, name: string): Uint8Array {
+  return new TextEncoder().encode(`${owner}:${name}`);
+}
+
+async function encrypt(env: Env, owner: string, name: string, value: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(owner, name) },
+    await importKey(env),
+    new TextEncoder().encode(value)
+  );
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return toBase64(sealed);
+}
+
+async function decrypt(env: Env, owner: string, name: string, value: string): Promise<string> {
+  const sealed = fromBase64(value);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.slice(0, IV_LENGTH), additionalData: additionalData(owner, name) },
+    await importKey(env),
+    sealed.slice(IV_LENGTH)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// KV lists lag behind writes by up to a minute, so a secret stored just now may not be listed yet
+export async function listSecrets(env: Env, owner: string): Promise<SecretInfo[]> {
+  const prefix = secretsPrefix(owner);
+  // MAX_SECRETS is well under a single page of keys
+  const { keys } = await env.CACHE.list<SecretMetadata>({ prefix });
+  return keys
+    .map((key) => ({ name: key.name.slice(prefix.length), updatedAt: key.metadata?.updatedAt ?? 0 }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Names the owner has no secret for, read entry by entry as listing may miss recent secrets
+export async function findMissingSecrets(env: Env, owner: string, names: string[]): Promise<string[]> {
+  const stored = await Promise.all(names.map((name) => env.CACHE.get(secretKey(owner, name))));
+  return names.filter((_, i) => stored[i] === null);
+}
+
+// Create or replace a secret; returns false when the owner already has MAX_SECRETS others
+export async function putSecret(env: Env, owner: string, name: string, value: string): Promise<boolean> {
+  const secrets = await listSecrets(env, owner);
+  if (!secrets.some((secret) => secret.name === name) && secrets.length >= MAX_SECRETS) {
+    return false;
+  }
+  const metadata: SecretMetadata = { updatedAt: Date.now() };
+  await env.CACHE.put(secretKey(owner, name), await encrypt(env, owner, name, value), { metadata });
+  return true;
+}
+
+export async function deleteSecret(env: Env, owner: string, name: string): Promise<boolean> {
+  if ((await env.CACHE.get(secretKey(owner, name))) === null) {
+    return false;
+  }
+  await env.CACHE.delete(secretKey(owner, name));
+  return true;
+}
+
+/**
+ * Decrypt the named secrets for injection into a sandbox. Names the owner has
+ * no secret for are left out, so callers can tell which went missing.
+ */
+export async function readSecrets(env: Env, owner: string, names: string[]): Promise<Record<string, string>> {
+  const values: Record<string, string> = {};
+  for (const name of names) {
+    const sealed = await env.CACHE.get(secretKey(owner, name));
+    if (sealed !== null) {
+      values[name] = await decrypt(env, owner, name, sealed);
+    }
+  }
+  return values;
+}
@@ -0,0 +1,306 @@
+/**
+ * Session registry Durable Object
+ *
+ * The one global object. It assigns session IDs and keeps a small summary of every
+ * session, enough to decide which queued session gets a free sandbox slot next and
+ * to list sessions, along with the warm pool and the deployment's metrics. Durable
+ * Object methods run one at a time, so slots cannot be handed out twice.
+ *
+ * Everything else about a session lives in its SessionStore (src/session-store.ts),
+ * which sends a new summary whenever a field below changes, and launches of the
+ * same repository are serialized by a LaunchCoordinator (src/launch-coordinator.ts).
+ * The registry therefore only sees status changes, not every event of every session.
+ *
+ * Summaries of torn down sessions are kept for RETENTION_MS, after which the cron
+ * reaper purges the sessions.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { SessionKeys } from './launch-coordinator';
+import { type MetricGauges, type MetricTotals, emptyMetricTotals, observeAuditEvent } from './metrics';
+import { type SchedulerLimits, holdsSlot, planAdmission } from './scheduler';
+import { type NewSession, type QueuedLaunch, SESSION_TTL_MS, getSessionStore } from './session-store';
+import type { AuditEvent, Env, LaunchOptions, SessionInfo } from './types';
+
+const RETENTION_MS = 24 * 3600 * 1000;
+
+// Failed audit events across all sessions, newest kept, for the admin dashboard
+const MAX_RECENT_ERRORS = 50;
+
+// Pooled sandboxes that have not come up by now are given up, see src/warm-pool.ts
+const WARM_START_TIMEOUT_MS = 10 * 60 * 1000;
+
+// What the registry knows about a session, stored under session:<id>; revision orders the store's updates
+export type SessionSummary = Pick<
+  SessionInfo,
+  'id' | 'repo' | 'owner' | 'status' | 'task' | 'createdAt' | 'expiresAt' | 'queuePosition' | 'destroyedAt'
+> & { revision: number };
+
+// A sandbox started ahead of demand, stored under pool:<id> until a session takes it over
+interface WarmSandbox {
+  id: string;
+  createdAt: number;
+  // Set once the container has answered; only ready sandboxes are handed out
+  readyAt?: number;
+  // Set while a session is being created on the sandbox, which keeps holding its slot meanwhile
+  claimedAt?: number;
+}
+
+export class SessionRegistry extends DurableObject<Env> {
+  /**
+   * Create a session in the 'queued' state and return it; admitQueued gives it a
+   * sandbox slot later. A new session that can be admitted right away takes over a
+   * warm sandbox. Launches share sessions through their LaunchCoordinator, which
+   * calls this; tasks call it directly and pass no keys.
+   */
+  async createSession(
+    session: NewSession,
+    launch: QueuedLaunch,
+    limits: SchedulerLimits,
+    keys?: SessionKeys
+  ): Promise<SessionInfo> {
+    const now = Date.now();
+    const warm = await this.takeWarmSandbox(session.owner, limits);
+    const info: SessionInfo = {
+      ...session,
+      // Sandboxes are addressed by session ID, so the session takes the warm sandbox's
+      id: warm?.id ?? crypto.randomUUID(),
+      ...(warm ? { warmSandbox: true } : {}),
+      status: 'queued',
+      createdAt: now,
+      expiresAt: now + SESSION_TTL_MS,
+    };
+
+    // The store is written first, so the registry never lists a session it cannot load
+    let summary: SessionSummary;
+    try {
+      summary = await getSessionStore(this.env, info.id).create(info, launch, keys);
+    } catch (e) {
+      if (warm) {
+        await this.ctx.storage.put(`pool:${warm.id}`, warm);
+      }
+      throw e;
+    }
+    await this.indexSession(summary);
+    if (warm) {
+      await this.ctx.storage.delete(`pool:${warm.id}`);
+    }
+    return info;
+  }
+
+  // Keep a session's summary, unless a newer one has already arrived
+  async indexSession(summary: SessionSummary): Promise<void> {
+    const current = await this.ctx.storage.get<SessionSummary>(`session:${summary.id}`);
+    if (!current || current.revision < summary.revision) {
+      await this.ctx.storage.put(`session:${summary.id}`, summary);
+    }
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    await this.ctx.storage.delete(`session:${sessionId}`);
+  }
+
+  /**
+   * Give free sandbox slots to queued sessions in admission order and return their
+   * launch options; the caller is responsible for initializing those sandboxes.
+   * Sessions left waiting are told their new place in line.
+   */
+  async admitQueued(limits: SchedulerLimits): Promise<LaunchOptions[]> {
+    const now = Date.now();
+    const sessions = await this.listSummaries();
+
+    const held = new Map<string, number>();
+    for (const info of sessions.filter(holdsSlot)) {
+      held.set(info.owner, (held.get(info.owner) ?? 0) + 1);
+    }
+    // Pooled sandboxes hold slots too, until they are claimed or given up
+    const used = sessions.filter(holdsSlot).length + (await this.ctx.storage.list({ prefix: 'pool:' })).size;
+
+    // Expired queued sessions are left for the reaper
+    const queued = sessions.filter((info) => info.status === 'queued' && info.expiresAt > now);
+    const { admit: admitting, waiting } = planAdmission(queued, held, used, limits);
+    // Admitted sessions hold their slot from here on, before their stores hear of it, so it cannot be handed out twice
+    for (const info of admitting) {
+      await this.ctx.storage.put(`session:${info.id}`, { ...info, status: 'initializing', queuePosition: undefined });
+    }
+    const moved = waiting.filter(({ info, position }) => info.queuePosition !== position);
+
+    for (const { info, position } of moved) {
+      try {
+        await getSessionStore(this.env, info.id).setQueuePosition(position);
+      } catch (e) {
+        console.error(`Failed to update the queue position of session ${info.id}:`, e);
+      }
+    }
+
+    const admitted: LaunchOptions[] = [];
+    for (const info of admitting) {
+      try {
+        const launch = await getSessionStore(this.env, info.id).admit();
+        if (launch) {
+          admitted.push(launch);
+        }
+      } catch (e) {
+        // Put the session back in line, unless its store has moved on, e.g. because it was stopped meanwhile
+        console.error(`Failed to admit session ${info.id}:`, e);
+        const current = await this.ctx.storage.get<SessionSummary>(`session:${info.id}`);
+        if (current?.revision === info.revision) {
+          await this.ctx.storage.put(`session:${info.id}`, info);
+        }
+      }
+    }
+    return admitted;
+  }
+
+  /**
+   * Claim the oldest ready warm sandbox, as long as no session is waiting in line
+   * and the owner is under their slot limit, so the session is admitted right after.
+   */
+  private async takeWarmSandbox(owner: string, limits: SchedulerLimits): Promise<WarmSandbox | null> {
+    const sessions = await this.listSummaries();
+    const now = Date.now();
+    if (sessions.some((info) => info.status === 'queued' && info.expiresAt > now)) {
+      return null;
+    }
+    if (sessions.filter((info) => info.owner === owner && holdsSlot(info)).length >= limits.perOwner) {
+      return null;
+    }
+
+    const ready = [...(await this.ctx.storage.list<WarmSandbox>({ prefix: 'pool:' })).values()]
+      .filter((warm) => warm.readyAt && !warm.claimedAt)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (ready.length === 0) {
+      return null;
+    }
+    await this.ctx.storage.put(`pool:${ready[0].id}`, { ...ready[0], claimedAt: now });
+    return ready[0];
+  }
+
+  /**
+   * Work out how the warm pool should change: sandboxes to start from free slots,
+   * ready ones to keep awake, and ones to give up because sessions are waiting in
+   * line, the pool is over its size or they never came up. New and given-up
+   * sandboxes are recorded here, so concurrent refills cannot overshoot.
+   */
+  async planWarmPool(limits: SchedulerLimits, size: number): Promise<{ start: string[]; keep: string[]; drop: string[] }> {
+    const now = Date.now();
+    const sessions = await this.listSummaries();
+    const waiting = sessions.filter((info) => info.status === 'queued' && info.expiresAt > now).length;
+    const all = [...(await this.ctx.storage.list<WarmSandbox>({ prefix: 'pool:' })).values()];
+    // Sandboxes being claimed belong to their session already
+    const claimed = all.filter((warm) => warm.claimedAt).length;
+    const pool = all.filter((warm) => !warm.claimedAt).sort((a, b) => a.createdAt - b.createdAt);
+
+    const failed = pool.filter((warm) => !warm.readyAt && warm.createdAt + WARM_START_TIMEOUT_MS <= now);
+    const healthy = pool.filter((warm) => !failed.includes(warm));
+    const excess = Math.min(healthy.length, Math.max(healthy.length - size, 0) + waiting);
+    const drop = [...failed, ...healthy.slice(0, excess)];
+    const kept = healthy.slice(excess);
+    if (drop.length > 0) {
+      await this.ctx.storage.delete(drop.map((warm) => `pool:${warm.id}`));
+    }
+
+    const used = sessions.filter(holdsSlot).length + claimed + kept.length;
+    const missing = waiting > 0 ? 0 : Math.max(Math.min(size - kept.length, limits.capacity - used), 0);
+    const start = Array.from({ length: missing }, () => crypto.randomUUID());
+    for (const id of start) {
+      await this.ctx.storage.put(`pool:${id}`, { id, createdAt: now } satisfies WarmSandbox);
+    }
+
+    return {
+      start,
+      keep: kept.filter((warm) => warm.readyAt).map((warm) => warm.id),
+      drop: drop.map((warm) => warm.id),
+    };
+  }
+
+  async markWarmSandboxReady(sandboxId: string): Promise<void> {
+    const warm = await this.ctx.storage.get<WarmSandbox>(`pool:${sandboxId}`);
+    if (warm) {
+      await this.ctx.storage.put(`pool:${sandboxId}`, { ...warm, readyAt: warm.readyAt ?? Date.now() });
+    }
+  }
+
+  // Returns false when the sandbox is no longer pooled, e.g. because a session took it over
+  async dropWarmSandbox(sandboxId: string): Promise<boolean> {
+    const warm = await this.ctx.storage.get<WarmSandbox>(`pool:${sandboxId}`);
+    if (!warm || warm.claimedAt) {
+      return false;
+    }
+    return this.ctx.storage.delete(`pool:${sandboxId}`);
+  }
+
+  // All sessions of one owner, newest first
+  async listSessions(owner: string): Promise<SessionSummary[]> {
+    return (await this.listSummaries())
+      .filter((info) => info.owner === owner)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Sessions whose sandbox may still exist, newest first, for the reaper and the admin dashboard
+  async listActiveSessions(): Promise<SessionSummary[]> {
+    return (await this.listSummaries())
+      .filter((info) => !info.destroyedAt)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Interactive sessions whose agent is up, whose previews the cron keeps in step with their listening ports
+  async listRunningSessions(): Promise<SessionSummary[]> {
+    return (await this.listSummaries()).filter((info) => !info.task && info.status === 'running');
+  }
+
+  // Headless tasks whose agent may still be working, checked by the reaper for completion
+  async listRunningTasks(): Promise<SessionSummary[]> {
+    return (await this.listSummaries())
+      .filter((info) => info.task && info.status === 'running' && info.task.exitCode === undefined);
+  }
+
+  // Sessions torn down more than RETENTION_MS ago, which the reaper purges and then removes from the registry
+  async listEnded(): Promise<SessionSummary[]> {
+    const now = Date.now();
+    return (await this.listSummaries()).filter((info) => info.destroyedAt && info.destroyedAt + RETENTION_MS <= now);
+  }
+
+  // Count audit events towards the metrics and keep the failures for the admin dashboard
+  async observeAuditEvents(events: AuditEvent[]): Promise<void> {
+    const errors = await this.ctx.storage.get<AuditEvent[]>('errors') ?? [];
+    let metrics = await this.ctx.storage.get<MetricTotals>('metrics') ?? emptyMetricTotals();
+    for (const event of events) {
+      // Agent commands fail all the time as part of normal work, so they are not errors worth an operator's attention
+      if (!event.success && event.type !== 'command') {
+        errors.push(event);
+      }
+      metrics = observeAuditEvent(metrics, event);
+    }
+    await this.ctx.storage.put({ errors: errors.slice(-MAX_RECENT_ERRORS), metrics });
+  }
+
+  // Newest first
+  async listRecentErrors(): Promise<AuditEvent[]> {
+    return (await this.ctx.storage.get<AuditEvent[]>('errors') ?? []).reverse();
+  }
+
+  // Totals from the audit events so far, with gauges read from the current sessions and warm pool
+  async getMetrics(): Promise<{ totals: MetricTotals; gauges: MetricGauges }> {
+    const counts: MetricGauges['sessions'] = {};
+    for (const info of await this.listSummaries()) {
+      counts[info.status] = (counts[info.status] ?? 0) + 1;
+    }
+    const pool = [...(await this.ctx.storage.list<WarmSandbox>({ prefix: 'pool:' })).values()]
+      .filter((warm) => !warm.claimedAt);
+    const ready = pool.filter((warm) => warm.readyAt).length;
+    return {
+      totals: await this.ctx.storage.get<MetricTotals>('metrics') ?? emptyMetricTotals(),
+      gauges: { sessions: counts, warmSandboxes: { ready, starting: pool.length - ready } },
+    };
+  }
+
+  private async listSummaries(): Promise<SessionSummary[]> {
+    return [...(await this.ctx.storage.list<SessionSummary>({ prefix: 'session:' })).values()];
+  }
+}
+
+// Capacity and the queue span all sessions, so there is a single registry instance
+export function getSessionRegistry(env: Env): DurableObjectStub<SessionRegistry> {
+  return env.SESSIONS.get(env.SESSIONS.idFromName('global'));
+}
@@ -0,0 +1,507 @@
+/**
+ * Session store Durable Object
+ *
+ * One instance per session, named by session ID, holding everything about the
+ * session: its info, the launch options while it waits for a sandbox, a short
+ * event history fanned out to Server-Sent Events subscribers, and its audit log.
+ * Durable Object methods run one at a time, so moving a session between states
+ * is atomic, unlike the read-modify-write cycles KV would need.
+ *
+ * Whenever a field the scheduler looks at changes, the store sends a summary to
+ * the global SessionRegistry, which decides on sandbox slots and lists sessions.
+ * Stopped sessions stay readable until the cron reaper purges them, so their page
+ * can say why they ended.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { type SessionKeys, getLaunchCoordinator } from './launch-coordinator';
+import { logEvent } from './log';
+import {
+  RESERVATION_PREFIX,
+  type SpendReservation,
+  outstandingReservations,
+  spendCapRefusal,
+  spendCaps,
+} from './metering';
+import { type SessionSummary, getSessionRegistry } from './session-registry';
+import { addUsage, getSpendLedger } from './spend-ledger';
+import type {
+  AuditEntry,
+  AuditEvent,
+  Env,
+  LaunchOptions,
+  LlmUsage,
+  PreviewInfo,
+  PullRequestInfo,
+  SessionEvent,
+  SessionInfo,
+  SessionStatus,
+  SetupStepResult,
+  StopReason,
+  StoredSessionEvent,
+} from './types';
+
+export const SESSION_TTL_MS = 7200 * 1000;
+
+// Extensions add SESSION_TTL_MS at a time, but never past this age
+export const MAX_SESSION_LIFETIME_MS = 24 * 3600 * 1000;
+
+// Running sessions without preview traffic for this long are reaped
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Launches that have not reached 'running' by now lost their worker and will never finish
+const STALLED_LAUNCH_MS = 60 * 60 * 1000;
+
+// Oldest events are dropped beyond this, replays only need the recent history
+const MAX_EVENTS = 200;
+
+// Event streams get a comment this often, so proxies do not close them while a step runs quietly
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Nothing more is streamed once a session reaches one of these
+const FINAL_STATUSES: SessionStatus[] = ['error', 'stopped'];
+
+// Oldest audit events are dropped beyond this; a session with a busy agent records one per command
+const MAX_AUDIT_EVENTS = 1000;
+
+// Allowed status transitions; any state may fail into 'error' and be stopped
+const TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  queued: ['initializing', 'error', 'stopped'],
+  initializing: ['cloning', 'error', 'stopped'],
+  cloning: ['installing', 'error', 'stopped'],
+  installing: ['starting', 'error', 'stopped'],
+  starting: ['running', 'error', 'stopped'],
+  running: ['error', 'stopped'],
+  error: ['stopped'],
+  stopped: [],
+};
+
+export type NewSession = Omit<SessionInfo, 'id' | 'status' | 'createdAt' | 'expiresAt'>;
+
+// Launch options are stored without the session ID, which the registry assigns
+export type QueuedLaunch = Omit<LaunchOptions, 'sessionId'>;
+
+// Revisions count the updates, so the registry can tell a late summary from a newer one
+type StoredSession = SessionInfo & { keys?: SessionKeys; revision: number };
+
+export function isLive(info: SessionInfo, now = Date.now()): boolean {
+  return info.status !== 'stopped' && info.expiresAt > now;
+}
+
+function summarize(stored: StoredSession): SessionSummary {
+  const { id, repo, owner, status, task, createdAt, expiresAt, queuePosition, destroyedAt, revision } = stored;
+  return { id, repo, owner, status, task, createdAt, expiresAt, queuePosition, destroyedAt, revision };
+}
+
+function withoutRevision({ revision: _revision, ...summary }: SessionSummary): string {
+  return JSON.stringify(summary);
+}
+
+export class SessionStore extends DurableObject<Env> {
+  private subscribers = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private encoder = new TextEncoder();
+  private heartbeat?: ReturnType<typeof setInterval>;
+
+  /**
+   * Record a new session in the 'queued' state, called by the registry once it has
+   * assigned the ID. The launch options are kept until admit hands them out.
+   * Tasks have no launch keys, as they are never shared.
+   */
+  async create(info: SessionInfo, launch: QueuedLaunch, keys?: SessionKeys): Promise<SessionSummary> {
+    const stored: StoredSession = { ...info, keys, revision: 0 };
+    // The launch options may hold a git token, so they are deleted as soon as the session is admitted
+    await this.ctx.storage.put({ session: stored, launch });
+    await this.appendEvent({ type: 'status', status: info.status });
+    return summarize(stored);
+  }
+
+  async getSession(): Promise<SessionInfo | null> {
+    const stored = await this.ctx.storage.get<StoredSession>('session');
+    if (!stored) {
+      return null;
+    }
+    const { keys: _keys, revision: _revision, ...info } = stored;
+    return info;
+  }
+
+  /**
+   * Unbind the session from its launch key, so the next launch of the same repository
+   * creates a fresh session instead of returning to this one. The session itself is
+   * left alone. Returns false when the key already points elsewhere or nowhere.
+   */
+  async releaseSessionKey(): Promise<boolean> {
+    const stored = await this.ctx.storage.get<StoredSession>('session');
+    if (!stored?.keys) {
+      return false;
+    }
+    return getLaunchCoordinator(this.env, stored.keys.launchKey).releaseSessionKey(stored.keys.sessionKey, stored.id);
+  }
+
+  // Move the session to a new status, rejecting transitions the lifecycle does not allow
+  async transition(status: SessionStatus, details: { error?: string; logTail?: string[] } = {}): Promise<SessionInfo> {
+    const { error, logTail } = details;
+    const info = await this.update((current) => {
+      if (!TRANSITIONS[current.status].includes(status)) {
+        throw new Error(`Invalid session transition: ${current.status} -> ${status}`);
+      }
+      return { status, error, logTail };
+    });
+    await this.appendEvent({ type: 'status', status, error });
+    return info;
+  }
+
+  async recordLaunchChoices(details: Pick<SessionInfo, 'agent' | 'model'>): Promise<SessionInfo> {
+    return this.update(() => details);
+  }
+
+  /**
+   * Mark the session as stopped and release its key, so launching the same repo again
+   * creates a fresh session. Stopping an already stopped session is a no-op.
+   */
+  async stopSession(reason: StopReason): Promise<SessionInfo> {
+    const current = await this.getSession();
+    if (!current) {
+      throw new Error('Session not found');
+    }
+    if (current.status === 'stopped') {
+      return current;
+    }
+
+    const info = await this.update(() => ({ status: 'stopped', stopReason: reason, stoppedAt: Date.now() }));
+    await this.releaseSessionKey();
+    await this.ctx.storage.delete('launch');
+    await this.appendEvent({ type: 'status', status: 'stopped' });
+    return info;
+  }
+
+  /**
+   * Start the session on the sandbox slot the registry gave it and return its launch
+   * options; the caller is responsible for initializing the sandbox.
+   */
+  async admit(): Promise<LaunchOptions | null> {
+    const launch = await this.ctx.storage.get<QueuedLaunch>('launch');
+    if (!launch) {
+      await this.transition('error', { error: 'Launch options for this session are missing' });
+      return null;
+    }
+    const info = await this.transition('initializing');
+    // The lifetime starts once the session has a sandbox, not while it waits
+    const now = Date.now();
+    await this.update(() => ({ queuePosition: undefined, admittedAt: now, expiresAt: now + SESSION_TTL_MS }));
+    await this.ctx.storage.delete('launch');
+    return { ...launch, sessionId: info.id };
+  }
+
+  async setQueuePosition(position: number): Promise<void> {
+    await this.update(() => ({ queuePosition: position }));
+    await this.appendEvent({ type: 'queue', position });
+  }
+
+  async markDestroyed(): Promise<SessionInfo> {
+    return this.update(() => ({ destroyedAt: Date.now() }));
+  }
+
+  // Push the expiry SESSION_TTL_MS into the future, capped at MAX_SESSION_LIFETIME_MS
+  async extendSession(): Promise<SessionInfo> {
+    return this.update((info) => {
+      if (!isLive(info)) {
+        throw new Error(`Session has ended: ${info.id}`);
+      }
+      return { expiresAt: Math.min(Date.now() + SESSION_TTL_MS, info.createdAt + MAX_SESSION_LIFETIME_MS) };
+    });
+  }
+
+  // Record preview traffic without bumping updatedAt, which tracks state changes
+  async touchSession(): Promise<void> {
+    const stored = await this.ctx.storage.get<StoredSession>('session');
+    if (stored && isLive(stored)) {
+      await this.ctx.storage.put('session', { ...stored, lastActiveAt: Date.now() });
+    }
+  }
+
+  /**
+   * Hold a model request's estimated cost against the session's spend cap and its
+   * owner's daily one, returning why not once what is spent and held reaches either.
+   */
+  async reserveSpend(reservationId: string, costUsd: number): Promise<string | null> {
+    const session = await this.getSession();
+    if (!session || !isLive(session)) {
+      return 'Session has ended';
+    }
+    const reservations = await this.ctx.storage.list<SpendReservation>({ prefix: RESERVATION_PREFIX });
+    const { reservedUsd, stale } = outstandingReservations(reservations);
+    if (stale.length > 0) {
+      await this.ctx.storage.delete(stale);
+    }
+    const refusal = spendCapRefusal(spendCaps(this.env), 'session', (session.usage?.costUsd ?? 0) + reservedUsd);
+    if (refusal) {
+      return refusal;
+    }
+
+    // Held before asking the ledger, as the session's other requests are checked while it answers
+    const key = `${RESERVATION_PREFIX}${reservationId}`;
+    await this.ctx.storage.put<SpendReservation>(key, { costUsd, at: Date.now() });
+    const dailyRefusal = await getSpendLedger(this.env, session.owner).reserve(reservationId, costUsd);
+    if (dailyRefusal) {
+      await this.ctx.storage.delete(key);
+    }
+    return dailyRefusal;
+  }
+
+  // Replace a hold with the usage its request was charged, on the session and its owner's day; an agent calling its model counts as activity
+  async settleSpend(reservationId: string, usage: LlmUsage | null): Promise<void> {
+    await this.ctx.storage.delete(`${RESERVATION_PREFIX}${reservationId}`);
+    const stored = await this.ctx.storage.get<StoredSession>('session');
+    if (!stored) {
+      return;
+    }
+    if (usage) {
+      const now = Date.now();
+      await this.ctx.storage.put('session', {
+        ...stored,
+        usage: addUsage(stored.usage, usage),
+        ...(isLive(stored, now) ? { lastActiveAt: now } : {}),
+      });
+    }
+    await getSpendLedger(this.env, stored.owner).settle(reservationId, usage);
+  }
+
+  // Send the summary to the registry again, for when an update could not reach it
+  async reindex(): Promise<void> {
+    const stored = await this.ctx.storage.get<StoredSession>('session');
+    if (stored) {
+      await getSessionRegistry(this.env).indexSession(summarize(stored));
+    }
+  }
+
+  // Delete everything about the session, once the registry has kept it long enough
+  async purge(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+    this.closeSubscribers();
+  }
+
+  async setPreviewUrl(previewUrl: string): Promise<SessionInfo> {
+    return this.update(() => ({ previewUrl }));
+  }
+
+  // The ref a launch URL turned out to name, once the remote was asked
+  async recordRef(details: Pick<SessionInfo, 'ref' | 'subdirectory' | 'filePath'>): Promise<SessionInfo> {
+    return this.update(() => details);
+  }
+
+  async recordBaseCommit(baseCommit: string): Promise<SessionInfo> {
+    return this.update(() => ({ baseCommit }));
+  }
+
+  async recordPrebuild(prebuildCommit: string): Promise<SessionInfo> {
+    return this.update(() => ({ prebuildCommit }));
+  }
+
+  async recordTaskStart(): Promise<SessionInfo> {
+    return this.update((info) => ({ task: { ...info.task, startedAt: Date.now() } }));
+  }
+
+  async recordTaskExit(exitCode: number): Promise<SessionInfo> {
+    return this.update((info) => ({ task: { ...info.task, exitCode, finishedAt: Date.now() } }));
+  }
+
+  async recordPullRequest(pullRequest: PullRequestInfo): Promise<SessionInfo> {
+    return this.update(() => ({ pullRequest }));
+  }
+
+  async recordRepoConfig(details: Pick<SessionInfo, 'configFile' | 'configErrors' | 'requiredEnv'>): Promise<SessionInfo> {
+    return this.update(() => details);
+  }
+
+  async addPreview(preview: PreviewInfo): Promise<SessionInfo> {
+    return this.update((info) => ({
+      previews: [...(info.previews ?? []).filter((existing) => existing.port !== preview.port), preview],
+    }));
+  }
+
+  async removePreview(port: number): Promise<SessionInfo> {
+    return this.update((info) => ({
+      previews: (info.previews ?? []).filter((existing) => existing.port !== port),
+    }));
+  }
+
+  async recordProvidedEnv(names: string[]): Promise<SessionInfo> {
+    return this.update((info) => ({
+      providedEnv: [...new Set([...info.providedEnv ?? [], ...names])],
+    }));
+  }
+
+  async recordSecrets(names: string[]): Promise<SessionInfo> {
+    return this.update((info) => ({
+      secrets: [...new Set([...info.secrets ?? [], ...names])].sort(),
+    }));
+  }
+
+  async recordSetupStep(step: SetupStepResult): Promise<SessionInfo> {
+    return this.update((info) => ({ setup: [...info.setup ?? [], step] }));
+  }
+
+  // Record an event and push it to everyone subscribed to the session
+  async appendEvent(event: SessionEvent): Promise<void> {
+    const events = await this.ctx.storage.get<StoredSessionEvent[]>('events') ?? [];
+    const stored: StoredSessionEvent = {
+      ...event,
+      id: (events[events.length - 1]?.id ?? 0) + 1,
+      at: Date.now(),
+    };
+    events.push(stored);
+    await this.ctx.storage.put('events', events.slice(-MAX_EVENTS));
+
+    for (const writer of this.subscribers) {
+      this.send(writer, stored);
+    }
+    if (event.type === 'status' && FINAL_STATUSES.includes(event.status)) {
+      this.closeSubscribers();
+    }
+  }
+
+  /**
+   * Append to the session's audit log and pass the events on to the registry, which
+   * counts them towards the metrics. Events for a purged session are dropped.
+   */
+  async recordAudit(entries: AuditEntry[]): Promise<void> {
+    const info = await this.getSession();
+    if (!info) {
+      return;
+    }
+    const added: AuditEvent[] = entries.map((entry) => ({
+      ...entry,
+      sessionId: info.id,
+      repo: info.repo,
+      user: info.owner,
+      at: entry.at ?? Date.now(),
+    }));
+    const events = await this.ctx.storage.get<AuditEvent[]>('audit') ?? [];
+    await this.ctx.storage.put('audit', [...events, ...added].slice(-MAX_AUDIT_EVENTS));
+    for (const event of added) {
+      logEvent('audit', { audit: event });
+    }
+    await getSessionRegistry(this.env).observeAuditEvents(added);
+  }
+
+  async getAuditLog(): Promise<AuditEvent[]> {
+    return await this.ctx.storage.get<AuditEvent[]>('audit') ?? [];
+  }
+
+  /**
+   * Open a Server-Sent Events stream for the session. Events after `lastEventId`
+   * are replayed first so reconnecting clients do not miss transitions. The stream
+   * ends once the session reaches a final status, right away if it already has.
+   */
+  async subscribe(lastEventId = 0): Promise<ReadableStream<Uint8Array>> {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+
+    const events = await this.ctx.storage.get<StoredSessionEvent[]>('events') ?? [];
+    for (const event of events) {
+      if (event.id > lastEventId) {
+        this.send(writer, event);
+      }
+    }
+
+    const info = await this.getSession();
+    if (!info || FINAL_STATUSES.includes(info.status)) {
+      writer.close().catch(() => {});
+      return readable;
+    }
+    this.subscribers.add(writer);
+    this.heartbeat ??= setInterval(() => {
+      for (const subscriber of this.subscribers) {
+        this.write(subscriber, ': heartbeat\n\n');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return readable;
+  }
+
+  private send(writer: WritableStreamDefaultWriter<Uint8Array>, event: StoredSessionEvent): void {
+    const { id, type, ...data } = event;
+    this.write(writer, `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private write(writer: WritableStreamDefaultWriter<Uint8Array>, message: string): void {
+    // A failed write means the client went away
+    writer.write(this.encoder.encode(message)).catch(() => {
+      this.subscribers.delete(writer);
+      if (this.subscribers.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+  }
+
+  // End every open stream, after the events already written to it
+  private closeSubscribers(): void {
+    for (const writer of this.subscribers) {
+      writer.close().catch(() => {});
+    }
+    this.subscribers.clear();
+    this.stopHeartbeat();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat !== undefined) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+
+  private async update(change: (info: SessionInfo) => Partial<SessionInfo>): Promise<SessionInfo> {
+    const stored = await this.ctx.storage.get<StoredSession>('session');
+    if (!stored) {
+      throw new Error('Session not found');
+    }
+
+    const updated: StoredSession = { ...stored, ...change(stored), updatedAt: Date.now(), revision: stored.revision + 1 };
+    await this.ctx.storage.put('session', updated);
+    const summary = summarize(updated);
+    if (withoutRevision(summary) !== withoutRevision(summarize(stored))) {
+      await getSessionRegistry(this.env).indexSession(summary);
+    }
+
+    const { keys: _keys, revision: _revision, ...info } = updated;
+    return info;
+  }
+}
+
+// Why the cron reaper should tear a session down now, if it should
+export function reapReason(session: SessionInfo, now: number): StopReason | null {
+  if (session.status === 'stopped') {
+    return session.destroyedAt ? null : session.stopReason ?? 'user';
+  }
+  if (session.expiresAt <= now) {
+    return 'expired';
+  }
+  // Waiting in line is not stalling, queued sessions only end when they expire
+  if (session.status === 'queued') {
+    return null;
+  }
+  if (session.status === 'error') {
+    return 'failed';
+  }
+  // Headless tasks have no preview traffic and run until they finish or expire
+  if (session.status === 'running' && session.task) {
+    return null;
+  }
+  if (session.status === 'running') {
+    const lastActiveAt = session.lastActiveAt ?? session.updatedAt ?? session.createdAt;
+    return lastActiveAt + IDLE_TIMEOUT_MS <= now ? 'idle' : null;
+  }
+  return (session.admittedAt ?? session.createdAt) + STALLED_LAUNCH_MS <= now ? 'stalled' : null;
+}
+
+export function getSessionStore(env: Env, sessionId: string): DurableObjectStub<SessionStore> {
+  return env.SESSION_STORE.get(env.SESSION_STORE.idFromName(sessionId));
+}
+
+// Full info for sessions the registry listed; sessions purged meanwhile are left out
+export async function loadSessions(env: Env, summaries: Array<Pick<SessionInfo, 'id'>>): Promise<SessionInfo[]> {
+  const sessions: Array<SessionInfo | null> = await Promise.all(
+    summaries.map((summary) => getSessionStore(env, summary.id).getSession())
+  );
+  return sessions.filter((info): info is SessionInfo => info !== null);
+}
@@ -0,0 +1,116 @@
+/**
+ * Automatic project setup
+ *
+ * Detects the toolchains a cloned repository uses from its manifest and lock
+ * files, then installs runtimes (through mise) and dependencies before the agent
+ * starts. Steps are best effort: a failed step is recorded and setup continues.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { SetupStepResult } from './types';
+
+export interface SetupStep {
+  name: string;
+  command: string;
+}
+
+// Where every session's repository is cloned
+export const REPO_DIR = '/home/user/repo';
+
+// Where setup and the agent run: the repository root, or the subdirectory a monorepo launch is scoped to
+export function agentWorkDir(subdirectory?: string): string {
+  return subdirectory ? `${REPO_DIR}/${subdirectory}` : REPO_DIR;
+}
+
+const STEP_TIMEOUT_MS = 600000;
+
+// mise installs runtimes into its own shims directory, so later steps must see it on PATH
+const SHELL_PREFIX = 'export PATH="$HOME/.local/share/mise/shims:$PATH" CI=1';
+
+// Ordered so runtimes are installed before the package managers that need them
+export function detectSetupSteps(files: Set<string>): SetupStep[] {
+  const steps: SetupStep[] = [];
+
+  if (files.has('.mise.toml') || files.has('mise.toml') || files.has('.tool-versions')) {
+    steps.push({ name: 'mise', command: 'mise trust --yes --all && mise install --yes' });
+  }
+
+  if (files.has('package.json')) {
+    if (files.has('bun.lock') || files.has('bun.lockb')) {
+      steps.push({ name: 'bun', command: 'bun install --frozen-lockfile' });
+    } else if (files.has('pnpm-lock.yaml')) {
+      steps.push({ name: 'pnpm', command: 'pnpm install --frozen-lockfile' });
+    } else if (files.has('yarn.lock')) {
+      steps.push({ name: 'yarn', command: 'yarn install --frozen-lockfile' });
+    } else if (files.has('package-lock.json')) {
+      steps.push({ name: 'npm', command: 'npm ci' });
+    } else {
+      steps.push({ name: 'npm', command: 'npm install' });
+    }
+  }
+
+  if (files.has('go.mod')) {
+    steps.push({ name: 'go', command: 'go mod download' });
+  }
+
+  if (files.has('Cargo.toml')) {
+    steps.push({ name: 'cargo', command: 'cargo fetch' });
+  }
+
+  if (files.has('pyproject.toml')) {
+    if (files.has('uv.lock')) {
+      steps.push({ name: 'uv', command: 'uv sync' });
+    } else if (files.has('poetry.lock')) {
+      steps.push({ name: 'poetry', command: 'poetry install --no-interaction' });
+    } else {
+      steps.push({ name: 'pip', command: 'pip install -e .' });
+    }
+  } else if (files.has('requirements.txt')) {
+    steps.push({ name: 'pip', command: 'pip install -r requirements.txt' });
+  }
+
+  if (files.has('Gemfile')) {
+    steps.push({ name: 'bundler', command: 'bundle install' });
+  }
+
+  if (files.has('composer.json')) {
+    steps.push({ name: 'composer', command: 'composer install --no-interaction' });
+  }
+
+  return steps;
+}
+
+export async function listRepoFiles(sandbox: Sandbox, workDir: string): Promise<Set<string>> {
+  const result = await sandbox.exec(`ls -1A ${workDir}`, { timeout: 10000 });
+  return new Set(result.stdout.split('\n').map((line) => line.trim()).filter(Boolean));
+}
+
+export async function runSetupStep(sandbox: Sandbox, workDir: string, step: SetupStep): Promise<SetupStepResult> {
+  const startedAt = Date.now();
+  try {
+    const result = await sandbox.exec(
+      `${SHELL_PREFIX} && cd ${workDir} && ${step.command}`,
+      { timeout: STEP_TIMEOUT_MS }
+    );
+    return {
+      name: step.name,
+      command: step.command,
+      success: result.success,
+      durationMs: Date.now() - startedAt,
+      // Keep the end of the output for failed steps so the session page can show why
+      output: result.success ? undefined : tail(`${result.stdout}\n${result.stderr}`),
+    };
+  } catch (error) {
+    return {
+      name: step.name,
+      command: step.command,
+      success: false,
+      durationMs: Date.now() - startedAt,
+      output: String(error),
+    };
+  }
+}
+
+function tail(output: string, lines = 20): string {
+  return output.trim().split('\n').slice(-lines).join('\n');
+}
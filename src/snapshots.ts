@@ -0,0 +1,165 @@
+/**
+ * Workspace snapshots in R2
+ *
+ * A snapshot stores what changed in the repository since it was cloned: a
+ * binary git diff against the launch commit plus an archive of untracked files,
+ * packed into one tarball. Restoring checks out the same commit in a fresh clone
+ * and replays both. Snapshots belong to the session owner and are keyed by owner
+ * in the bucket, so listing them never crosses users.
+ */
+
+import type { ExecutionSession, Sandbox } from '@cloudflare/sandbox';
+import { uploadArchive, writeArchiveParts } from './archives';
+import type { Env, SessionInfo, SnapshotInfo, SnapshotReason } from './types';
+
+const SNAPSHOT_DIR = '/tmp/cloudx-snapshot';
+const SNAPSHOT_ARCHIVE = '/tmp/cloudx-snapshot.tar.gz';
+const RESTORE_DIR = '/tmp/cloudx-restore';
+const RESTORE_PARTS_DIR = '/tmp/cloudx-restore.parts';
+
+// Snapshots hold the session's own changes; anything bigger is most likely build output nobody ignored
+const MAX_SNAPSHOT_BYTES = 50 * 1024 * 1024;
+
+const COMMIT_SHA_REGEX = /^[0-9a-f]{40}$/;
+
+function snapshotKey(owner: string, snapshotId: string): string {
+  return `snapshots/${owner}/${snapshotId}.tar.gz`;
+}
+
+function toSnapshotInfo(object: R2Object): SnapshotInfo {
+  const metadata = object.customMetadata ?? {};
+  return {
+    id: object.key.slice(object.key.lastIndexOf('/') + 1, -'.tar.gz'.length),
+    repo: metadata.repo,
+    sessionId: metadata.sessionId,
+    baseCommit: metadata.baseCommit,
+    reason: metadata.reason as SnapshotReason,
+    size: object.size,
+    createdAt: object.uploaded.getTime(),
+  };
+}
+
+/**
+ * Archive the session's changes and upload them. Returns null when there is nothing
+ * to save. `exclude` lists files the agent wrote into the repository itself.
+ */
+export async function createSnapshot(
+  env: Env,
+  sandbox: Sandbox,
+  info: SessionInfo,
+  workDir: string,
+  reason: SnapshotReason,
+  exclude: string[] = []
+): Promise<SnapshotInfo | null> {
+  if (!info.baseCommit) {
+    throw new Error('Session has no checkout to snapshot');
+  }
+
+  const excludeSpecs = exclude.map((file) => ` ':(exclude)${file}'`).join('');
+  const excludeUntracked = exclude.map((file) => ` | grep -v -x -F '${file}'`).join('');
+  const result = await sandbox.exec(
+    [
+      'set -e',
+      `rm -rf ${SNAPSHOT_DIR} ${SNAPSHOT_ARCHIVE} && mkdir -p ${SNAPSHOT_DIR}`,
+      `cd ${workDir}`,
+      `git diff --binary ${info.baseCommit} -- .${excludeSpecs} > ${SNAPSHOT_DIR}/changes.patch`,
+      `git ls-files --others --exclude-standard${excludeUntracked} > ${SNAPSHOT_DIR}/untracked.list || true`,
+      `tar -czf ${SNAPSHOT_DIR}/untracked.tar.gz -T ${SNAPSHOT_DIR}/untracked.list`,
+      `tar -czf ${SNAPSHOT_ARCHIVE} -C ${SNAPSHOT_DIR} changes.patch untracked.tar.gz`,
+      `echo "$(wc -c < ${SNAPSHOT_DIR}/changes.patch) $(wc -l < ${SNAPSHOT_DIR}/untracked.list) $(wc -c < ${SNAPSHOT_ARCHIVE})"`,
+    ].join('\n'),
+    { timeout: 120000 }
+  );
+  if (!result.success) {
+    throw new Error(`Failed to archive workspace: ${result.stderr.trim()}`);
+  }
+
+  const [patchBytes, untrackedFiles, archiveBytes] = result.stdout.trim().split(' ').map(Number);
+  if (patchBytes === 0 && untrackedFiles === 0) {
+    return null;
+  }
+  if (archiveBytes > MAX_SNAPSHOT_BYTES) {
+    throw new Error(`Snapshot is ${(archiveBytes / 1048576).toFixed(1)} MB, the limit is ${MAX_SNAPSHOT_BYTES / 1048576} MB`);
+  }
+
+  let object: R2Object;
+  try {
+    object = await uploadArchive(env, sandbox, SNAPSHOT_ARCHIVE, archiveBytes, snapshotKey(info.owner, crypto.randomUUID()), {
+      httpMetadata: { contentType: 'application/gzip' },
+      customMetadata: {
+        repo: info.repo,
+        sessionId: info.id,
+        baseCommit: info.baseCommit,
+        reason,
+      },
+    });
+  } finally {
+    await sandbox.exec(`rm -rf ${SNAPSHOT_DIR} ${SNAPSHOT_ARCHIVE}`, { timeout: 10000 });
+  }
+  return toSnapshotInfo(object);
+}
+
+export async function listSnapshots(env: Env, owner: string, repo?: string): Promise<SnapshotInfo[]> {
+  const snapshots: SnapshotInfo[] = [];
+  let cursor: string | undefined;
+  do {
+    // `include` is missing from the bundled R2 types, but metadata is only listed when requested
+    const options = { prefix: `snapshots/${owner}/`, cursor, include: ['customMetadata'] } as R2ListOptions;
+    const page = await env.SNAPSHOTS.list(options);
+    snapshots.push(...page.objects.map(toSnapshotInfo));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return snapshots
+    .filter((snapshot) => !repo || snapshot.repo === repo)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getSnapshot(env: Env, owner: string, snapshotId: string): Promise<SnapshotInfo | null> {
+  const object = await env.SNAPSHOTS.head(snapshotKey(owner, snapshotId));
+  return object ? toSnapshotInfo(object) : null;
+}
+
+export async function deleteSnapshot(env: Env, owner: string, snapshotId: string): Promise<void> {
+  await env.SNAPSHOTS.delete(snapshotKey(owner, snapshotId));
+}
+
+/**
+ * Replay a snapshot onto a fresh clone. Runs in the git session so the base
+ * commit can be fetched from private repositories.
+ */
+export async function restoreSnapshot(
+  env: Env,
+  git: Sandbox | ExecutionSession,
+  owner: string,
+  snapshot: SnapshotInfo,
+  workDir: string
+): Promise<void> {
+  if (!COMMIT_SHA_REGEX.test(snapshot.baseCommit)) {
+    throw new Error(`Snapshot ${snapshot.id} has an invalid base commit`);
+  }
+
+  const object = await env.SNAPSHOTS.get(snapshotKey(owner, snapshot.id));
+  if (!object) {
+    throw new Error(`Snapshot ${snapshot.id} no longer exists`);
+  }
+  await writeArchiveParts(git, object.body, RESTORE_PARTS_DIR);
+
+  const result = await git.exec(
+    [
+      'set -e',
+      `rm -rf ${RESTORE_DIR} && mkdir -p ${RESTORE_DIR}`,
+      `cat ${RESTORE_PARTS_DIR}/* | tar -xzf - -C ${RESTORE_DIR}`,
+      `rm -rf ${RESTORE_PARTS_DIR}`,
+      `cd ${workDir}`,
+      `git cat-file -e ${snapshot.baseCommit}^{commit} 2>/dev/null || git fetch --depth 1 origin ${snapshot.baseCommit}`,
+      `git checkout --quiet --detach ${snapshot.baseCommit}`,
+      `if [ -s ${RESTORE_DIR}/changes.patch ]; then git apply --binary --whitespace=nowarn ${RESTORE_DIR}/changes.patch; fi`,
+      `tar -xzf ${RESTORE_DIR}/untracked.tar.gz -C ${workDir}`,
+    ].join('\n'),
+    { timeout: 300000 }
+  );
+  if (!result.success) {
+    throw new Error(`Failed to restore snapshot ${snapshot.id}: ${result.stderr.trim()}`);
+  }
+}
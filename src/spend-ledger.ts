@@ -0,0 +1,76 @@
+/**
+ * Spend ledger Durable Object
+ *
+ * One instance per owner, adding up the metered model usage of all their sessions
+ * per UTC day, which the LLM proxy checks against the daily spend cap. Requests
+ * in flight hold their estimated cost here until they are settled, so an owner's
+ * concurrent requests are counted against the cap before their usage is known.
+ * Only today is kept; past days are deleted as the next day's usage comes in.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import {
+  RESERVATION_PREFIX,
+  type SpendReservation,
+  outstandingReservations,
+  spendCapRefusal,
+  spendCaps,
+} from './metering';
+import type { Env, LlmUsage } from './types';
+
+// Keyed by day, so past days can be listed as one range
+function usageKey(now = Date.now()): string {
+  return `usage:${new Date(now).toISOString().slice(0, 10)}`;
+}
+
+export function addUsage(total: LlmUsage | undefined, usage: LlmUsage): LlmUsage {
+  return {
+    requests: (total?.requests ?? 0) + usage.requests,
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    cachedInputTokens: (total?.cachedInputTokens ?? 0) + usage.cachedInputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    costUsd: (total?.costUsd ?? 0) + usage.costUsd,
+  };
+}
+
+export class SpendLedger extends DurableObject<Env> {
+  async today(): Promise<LlmUsage | undefined> {
+    return this.ctx.storage.get<LlmUsage>(usageKey());
+  }
+
+  // Hold an estimated cost against the daily cap, returning why not once today's spend and holds reach it
+  async reserve(reservationId: string, costUsd: number): Promise<string | null> {
+    const reservations = await this.ctx.storage.list<SpendReservation>({ prefix: RESERVATION_PREFIX });
+    const { reservedUsd, stale } = outstandingReservations(reservations);
+    if (stale.length > 0) {
+      await this.ctx.storage.delete(stale);
+    }
+    const spent = (await this.today())?.costUsd ?? 0;
+    const refusal = spendCapRefusal(spendCaps(this.env), 'daily', spent + reservedUsd);
+    if (!refusal) {
+      await this.ctx.storage.put<SpendReservation>(`${RESERVATION_PREFIX}${reservationId}`, { costUsd, at: Date.now() });
+    }
+    return refusal;
+  }
+
+  // Replace a hold with the usage its request was charged, if any
+  async settle(reservationId: string, usage: LlmUsage | null): Promise<void> {
+    await this.ctx.storage.delete(`${RESERVATION_PREFIX}${reservationId}`);
+    if (usage) {
+      await this.record(usage);
+    }
+  }
+
+  private async record(usage: LlmUsage): Promise<void> {
+    const key = usageKey();
+    await this.ctx.storage.put(key, addUsage(await this.ctx.storage.get<LlmUsage>(key), usage));
+    const pastDays = [...(await this.ctx.storage.list({ prefix: 'usage:', end: key })).keys()];
+    if (pastDays.length > 0) {
+      await this.ctx.storage.delete(pastDays);
+    }
+  }
+}
+
+export function getSpendLedger(env: Env, owner: string): DurableObjectStub<SpendLedger> {
+  return env.SPEND_LEDGER.get(env.SPEND_LEDGER.idFromName(owner));
+}
@@ -0,0 +1,169 @@
+/**
+ * Agent process lifecycle inside a sandbox
+ *
+ * The coding agent runs under a small shell supervisor that restarts it when it
+ * exits, and startup is confirmed by polling its HTTP port instead of sleeping.
+ * Only one agent runs per sandbox, so the supervisor files are shared by all backends.
+ * Commands the agent runs through bash are logged for the audit log, see src/audit.ts.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+
+const SUPERVISOR_SCRIPT = '/tmp/agent-supervisor.sh';
+const SUPERVISOR_STATE = '/tmp/agent-supervisor.state';
+const SUPERVISOR_RELOAD = '/tmp/agent-supervisor.reload';
+const SUPERVISOR_PID = '/tmp/agent-supervisor.pid';
+
+// Non-interactive bash shells the agent starts source this hook, which logs each command once it exits
+export const COMMAND_HOOK = '/tmp/agent-command-hook.sh';
+export const AGENT_COMMAND_LOG = '/tmp/agent-commands.log';
+
+// One file per variable, kept outside the repository so values cannot be committed
+const ENV_DIR = '/home/user/.cloudx/env.d';
+
+// Shell lines that export the stored variables, for anything else that should see what the agent sees
+export const LOAD_AGENT_ENV = `set -a
+for file in ${ENV_DIR}/*; do
+  [ -f "$file" ] && . "$file"
+done
+set +a`;
+
+const MAX_RESTARTS = 5;
+
+const READY_TIMEOUT_MS = 120000;
+const INITIAL_POLL_INTERVAL_MS = 500;
+const MAX_POLL_INTERVAL_MS = 5000;
+
+export interface SupervisedProcess {
+  // Human-readable name used in log lines and errors, e.g. "OpenCode"
+  label: string;
+  command: string;
+  port: number;
+  logFile: string;
+}
+
+export class AgentStartupError extends Error {
+  constructor(message: string, readonly logTail: string[]) {
+    super(message);
+    this.name = 'AgentStartupError';
+  }
+}
+
+// One line per command: start and end in epoch milliseconds, exit status, and the command on one line
+const COMMAND_HOOK_SCRIPT = `if [ -n "$BASH_EXECUTION_STRING" ]; then
+  __cloudx_started=$(date +%s%3N)
+  trap '__cloudx_status=$?; printf "%s\\t%s\\t%s\\t%s\\n" "$__cloudx_started" "$(date +%s%3N)" "$__cloudx_status" "$(printf %s "$BASH_EXECUTION_STRING" | tr "\\n\\t" "  ")" >> ${AGENT_COMMAND_LOG} 2>/dev/null' EXIT
+fi
+`;
+
+// Restart the agent with a growing delay whenever it exits, giving up after MAX_RESTARTS.
+// Requested reloads (e.g. after new environment variables) restart immediately and do not count.
+const supervisorScript = (workDir: string, agent: SupervisedProcess) => `#!/bin/sh
+cd ${workDir} || exit 1
+restarts=0
+echo running > ${SUPERVISOR_STATE}
+while true; do
+  (
+${LOAD_AGENT_ENV.replace(/^/gm, '    ')}
+    export BASH_ENV=${COMMAND_HOOK}
+    exec ${agent.command}
+  ) >> ${agent.logFile} 2>&1 &
+  echo $! > ${SUPERVISOR_PID}
+  wait $!
+  code=$?
+  if [ -f ${SUPERVISOR_RELOAD} ]; then
+    rm -f ${SUPERVISOR_RELOAD}
+    echo "[supervisor] reloading ${agent.label}" >> ${agent.logFile}
+    continue
+  fi
+  restarts=$((restarts + 1))
+  if [ "$restarts" -gt ${MAX_RESTARTS} ]; then
+    echo "[supervisor] ${agent.label} exited with code $code, giving up after ${MAX_RESTARTS} restarts" >> ${agent.logFile}
+    echo failed > ${SUPERVISOR_STATE}
+    exit 1
+  fi
+  echo "[supervisor] ${agent.label} exited with code $code, restart $restarts/${MAX_RESTARTS} in $((restarts * 2))s" >> ${agent.logFile}
+  echo restarting > ${SUPERVISOR_STATE}
+  sleep $((restarts * 2))
+done
+`;
+
+// Headless tasks run their agent outside the supervisor, with the same hook
+export async function writeCommandHook(sandbox: Sandbox): Promise<void> {
+  await sandbox.writeFile(COMMAND_HOOK, COMMAND_HOOK_SCRIPT);
+}
+
+export async function startSupervised(sandbox: Sandbox, workDir: string, agent: SupervisedProcess): Promise<void> {
+  await writeCommandHook(sandbox);
+  await sandbox.writeFile(SUPERVISOR_SCRIPT, supervisorScript(workDir, agent));
+  await sandbox.exec(
+    `nohup sh ${SUPERVISOR_SCRIPT} > /dev/null 2>&1 &`,
+    { timeout: 30000 }
+  );
+}
+
+/**
+ * Poll the agent's port from inside the sandbox until it answers HTTP requests.
+ * The interval backs off from INITIAL_POLL_INTERVAL_MS to MAX_POLL_INTERVAL_MS, and
+ * `onPoll` runs after every unsuccessful attempt (e.g. to stream the log).
+ */
+export async function waitForPort(
+  sandbox: Sandbox,
+  agent: SupervisedProcess,
+  onPoll?: () => Promise<void>
+): Promise<void> {
+  const deadline = Date.now() + READY_TIMEOUT_MS;
+  let interval = INITIAL_POLL_INTERVAL_MS;
+
+  while (true) {
+    const result = await sandbox.exec(
+      `curl -s -o /dev/null -w '%{http_code}' --max-time 3 http://localhost:${agent.port}/; echo; cat ${SUPERVISOR_STATE} 2>/dev/null`,
+      { timeout: 10000 }
+    );
+    const [httpCode, state] = result.stdout.trim().split('\n');
+
+    // Any HTTP answer means the server is listening
+    if (Number(httpCode) >= 200 && Number(httpCode) < 500) {
+      return;
+    }
+    if (state === 'failed') {
+      throw new AgentStartupError(`${agent.label} exited repeatedly during startup`, await readLogTail(sandbox, agent.logFile));
+    }
+    if (Date.now() + interval > deadline) {
+      throw new AgentStartupError(
+        `${agent.label} did not answer on port ${agent.port} within ${READY_TIMEOUT_MS / 1000}s`,
+        await readLogTail(sandbox, agent.logFile)
+      );
+    }
+
+    await onPoll?.();
+    await new Promise((resolve) => setTimeout(resolve, interval));
+    interval = Math.min(interval * 2, MAX_POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Store environment variables for the agent and restart it so they take effect.
+ * Names must already be validated; values are single-quoted for the shell.
+ */
+export async function setAgentEnv(sandbox: Sandbox, values: Record<string, string>): Promise<void> {
+  await sandbox.mkdir(ENV_DIR, { recursive: true });
+  for (const [name, value] of Object.entries(values)) {
+    await sandbox.writeFile(`${ENV_DIR}/${name}`, `${name}='${value.replace(/'/g, `'\\''`)}'\n`);
+  }
+  await sandbox.exec(
+    `chmod 600 ${ENV_DIR}/* && touch ${SUPERVISOR_RELOAD} && kill "$(cat ${SUPERVISOR_PID})"`,
+    { timeout: 10000 }
+  );
+}
+
+export async function readLogTail(sandbox: Sandbox, logFile: string, lines = 20): Promise<string[]> {
+  try {
+    const result = await sandbox.exec(`tail -n ${lines} ${logFile} 2>/dev/null`, { timeout: 5000 });
+    const tail = result.stdout.trimEnd();
+    return tail ? tail.split('\n') : [];
+  } catch (e) {
+    console.error('Failed to read agent log:', e);
+    return [];
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Headless tasks
+ *
+ * A task is a session without a UI: it is cloned and set up like any other, but
+ * its agent runs one prompt non-interactively instead of serving its UI. The
+ * prompt is written to a file the agent reads, never interpolated into a command.
+ * The agent runs detached from the worker; once it exits, its output and the
+ * resulting diff are saved to R2 and the session is stopped like any other.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { AgentBackend } from './agents';
+import { readChanges } from './export';
+import { COMMAND_HOOK, writeCommandHook } from './supervisor';
+import type { Env, SessionInfo, StopReason, TaskStatus } from './types';
+
+const TASK_SCRIPT = '/tmp/cloudx-task.sh';
+const TASK_PROMPT = '/tmp/cloudx-task.prompt';
+const TASK_LOG = '/tmp/cloudx-task.log';
+const TASK_EXIT = '/tmp/cloudx-task.exit';
+
+export const MAX_PROMPT_LENGTH = 100000;
+
+// Only the end of longer output is kept
+const MAX_LOG_BYTES = 5 * 1024 * 1024;
+
+export type TaskResult = 'output.log' | 'changes.patch';
+
+function resultKey(info: SessionInfo, result: TaskResult): string {
+  return `tasks/${info.owner}/${info.id}/${result}`;
+}
+
+// The exit code file is written last, so its presence means the agent has finished
+const taskScript = (workDir: string, command: string) => `#!/bin/sh
+cd ${workDir} || { echo 1 > ${TASK_EXIT}; exit 1; }
+export BASH_ENV=${COMMAND_HOOK}
+${command} > ${TASK_LOG} 2>&1
+echo $? > ${TASK_EXIT}
+`;
+
+export async function startTask(sandbox: Sandbox, backend: AgentBackend, workDir: string, prompt: string): Promise<void> {
+  await sandbox.writeFile(TASK_PROMPT, prompt);
+  await writeCommandHook(sandbox);
+  await sandbox.writeFile(TASK_SCRIPT, taskScript(workDir, backend.taskCommand(TASK_PROMPT)));
+  await sandbox.exec(`rm -f ${TASK_EXIT} && nohup sh ${TASK_SCRIPT} > /dev/null 2>&1 &`, { timeout: 30000 });
+}
+
+// The agent's exit code, or null while it is still running
+export async function readTaskExit(sandbox: Sandbox): Promise<number | null> {
+  const result = await sandbox.exec(`cat ${TASK_EXIT} 2>/dev/null`, { timeout: 10000 });
+  const code = result.stdout.trim();
+  return code ? Number(code) : null;
+}
+
+export async function readTaskLog(sandbox: Sandbox): Promise<string> {
+  const result = await sandbox.exec(`tail -c ${MAX_LOG_BYTES} ${TASK_LOG} 2>/dev/null`, { timeout: 30000 });
+  return result.stdout;
+}
+
+// Keep the agent output and diff once the sandbox is gone; a task that never ran has an empty log
+export async function saveTaskResults(
+  env: Env,
+  sandbox: Sandbox,
+  info: SessionInfo,
+  workDir: string,
+  exclude: string[] = []
+): Promise<void> {
+  const changes = await readChanges(sandbox, info, workDir, exclude);
+  await env.SNAPSHOTS.put(resultKey(info, 'changes.patch'), changes?.patch ?? '', {
+    httpMetadata: { contentType: 'text/x-diff; charset=utf-8' },
+  });
+  await env.SNAPSHOTS.put(resultKey(info, 'output.log'), await readTaskLog(sandbox), {
+    httpMetadata: { contentType: 'text/plain; charset=utf-8' },
+  });
+}
+
+export async function getTaskResult(env: Env, info: SessionInfo, result: TaskResult): Promise<string | null> {
+  const object = await env.SNAPSHOTS.get(resultKey(info, result));
+  return object ? object.text() : null;
+}
+
+export async function deleteTaskResults(env: Env, info: SessionInfo): Promise<void> {
+  await env.SNAPSHOTS.delete([resultKey(info, 'changes.patch'), resultKey(info, 'output.log')]);
+}
+
+export function taskStatus(info: SessionInfo): TaskStatus {
+  const exitCode = info.task?.exitCode;
+  if (exitCode !== undefined) {
+    return exitCode === 0 ? 'succeeded' : 'failed';
+  }
+  if (info.status === 'stopped') {
+    return info.stopReason === 'user' ? 'cancelled' : 'failed';
+  }
+  if (info.status === 'error') {
+    return 'failed';
+  }
+  if (info.status === 'queued') {
+    return 'queued';
+  }
+  return info.status === 'running' ? 'running' : 'preparing';
+}
+
+const STOP_ERRORS: Partial<Record<StopReason, string>> = {
+  expired: 'Task did not finish before the session expired',
+  stalled: 'Task setup never finished',
+};
+
+// Task as returned by /api/tasks to its owner
+export function taskView(info: SessionInfo) {
+  const status = taskStatus(info);
+  return {
+    id: info.id,
+    repo: info.repo,
+    ref: info.ref ?? null,
+    agent: info.agent ?? null,
+    model: info.model ?? null,
+    status,
+    queuePosition: info.queuePosition ?? null,
+    error: info.error ?? (status === 'failed' && info.stopReason ? STOP_ERRORS[info.stopReason] : undefined) ?? null,
+    exitCode: info.task?.exitCode ?? null,
+    usage: info.usage ?? null,
+    createdAt: info.createdAt,
+    startedAt: info.task?.startedAt ?? null,
+    finishedAt: info.task?.finishedAt ?? info.stoppedAt ?? null,
+    logsUrl: `/api/tasks/${info.id}/logs`,
+    diffUrl: `/api/tasks/${info.id}/diff`,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * In-browser terminal
+ *
+ * The session page embeds xterm.js, which speaks ttyd's WebSocket protocol. A
+ * second ttyd, apart from the agent's, is started on first use and gives every
+ * connection its own login shell in the agent's working directory with the
+ * agent's environment variables loaded. The worker only proxies the WebSocket,
+ * so the sandbox is never exposed on a preview hostname for it.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import { LOAD_AGENT_ENV } from './supervisor';
+
+export const TERMINAL_PORT = 7682;
+
+const TERMINAL_SCRIPT = '/tmp/cloudx-terminal.sh';
+const TERMINAL_LOG = '/tmp/cloudx-terminal.log';
+
+const READY_TIMEOUT_MS = 15000;
+const POLL_INTERVAL_MS = 500;
+
+const terminalScript = (workDir: string) => `#!/bin/sh
+cd ${workDir} 2>/dev/null || cd /home/user
+${LOAD_AGENT_ENV}
+exec bash -l
+`;
+
+async function isTerminalListening(sandbox: Sandbox): Promise<boolean> {
+  const result = await sandbox.exec(
+    `curl -s -o /dev/null -w '%{http_code}' --max-time 3 http://localhost:${TERMINAL_PORT}/`,
+    { timeout: 10000 }
+  );
+  const httpCode = Number(result.stdout.trim());
+  return httpCode >= 200 && httpCode < 500;
+}
+
+// Start the terminal server unless it already runs; the script is rewritten so new shells pick up a changed directory
+export async function ensureTerminal(sandbox: Sandbox, workDir: string): Promise<void> {
+  await sandbox.writeFile(TERMINAL_SCRIPT, terminalScript(workDir));
+  if (await isTerminalListening(sandbox)) {
+    return;
+  }
+
+  await sandbox.exec(
+    `nohup ttyd --port ${TERMINAL_PORT} --writable sh ${TERMINAL_SCRIPT} >> ${TERMINAL_LOG} 2>&1 &`,
+    { timeout: 10000 }
+  );
+  const deadline = Date.now() + READY_TIMEOUT_MS;
+  while (!(await isTerminalListening(sandbox))) {
+    if (Date.now() + POLL_INTERVAL_MS > deadline) {
+      throw new Error(`Terminal did not answer on port ${TERMINAL_PORT} within ${READY_TIMEOUT_MS / 1000}s`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Hand a browser's WebSocket upgrade to the terminal server. ttyd serves its
+ * socket at /ws, whatever path the request reached the worker on.
+ */
+export function connectTerminal(sandbox: Sandbox, request: Request): Promise<Response> {
+  return sandbox.wsConnect(new Request(new URL('/ws', request.url), request), TERMINAL_PORT);
+}
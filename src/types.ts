@@ -0,0 +1,242 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { LaunchCoordinator } from './launch-coordinator';
+import type { RateLimiter } from './rate-limit';
+import type { SessionRegistry } from './session-registry';
+import type { SessionStore } from './session-store';
+import type { SpendLedger } from './spend-ledger';
+
+export interface Env {
+  SANDBOX: DurableObjectNamespace<Sandbox>;
+  SESSIONS: DurableObjectNamespace<SessionRegistry>;
+  // One per session and one per launch key, see src/session-store.ts and src/launch-coordinator.ts
+  SESSION_STORE: DurableObjectNamespace<SessionStore>;
+  LAUNCH_COORDINATOR: DurableObjectNamespace<LaunchCoordinator>;
+  // Launch counters, see src/rate-limit.ts
+  RATE_LIMITER: DurableObjectNamespace<RateLimiter>;
+  // Model spend per owner and day, see src/spend-ledger.ts
+  SPEND_LEDGER: DurableObjectNamespace<SpendLedger>;
+  CACHE: KVNamespace;
+  // Workspace snapshots and headless task results, see src/snapshots.ts and src/tasks.ts
+  SNAPSHOTS: R2Bucket;
+  ANTHROPIC_API_KEY: string;
+  // Keys for the other model providers; their models are only offered when set
+  OPENAI_API_KEY?: string;
+  GOOGLE_API_KEY?: string;
+  ENVIRONMENT: string;
+  // GitHub OAuth app used for private repository access
+  GITHUB_CLIENT_ID?: string;
+  GITHUB_CLIENT_SECRET?: string;
+  // Secret used to sign session, visitor and preview access cookies
+  SESSION_SECRET: string;
+  // Overrides for the GitHub endpoints, e.g. to point at a local stand-in server in tests
+  GITHUB_OAUTH_URL?: string;
+  GITHUB_API_URL?: string;
+  // Override for the Anthropic API used to describe exported changes
+  ANTHROPIC_API_URL?: string;
+  // Sandboxes that may exist at once, and optionally per owner; see src/scheduler.ts
+  SANDBOX_CAPACITY?: string;
+  SANDBOX_CAPACITY_PER_OWNER?: string;
+  // Launch rate limits and repository access lists; see src/rate-limit.ts
+  LAUNCHES_PER_IP_PER_HOUR?: string;
+  LAUNCHES_PER_OWNER_PER_HOUR?: string;
+  DAILY_LAUNCH_BUDGET?: string;
+  ALLOWED_REPOS?: string;
+  BLOCKED_REPOS?: string;
+  // Public URL of the LLM proxy as the sandbox reaches it, when not the launch host; see src/llm-proxy.ts
+  LLM_PROXY_URL?: string;
+  // Model spend caps in US dollars, per session and per owner per UTC day
+  SESSION_SPEND_CAP_USD?: string;
+  DAILY_SPEND_CAP_USD?: string;
+  // Base64 AES-256 key that per-user secrets are encrypted with, see src/secrets.ts
+  SECRETS_KEY?: string;
+  // Sandboxes kept started ahead of demand, see src/warm-pool.ts
+  WARM_POOL_SIZE?: string;
+  // Operator access to /api/metrics and /admin: a bearer token and GitHub logins; see src/admin.ts
+  ADMIN_TOKEN?: string;
+  ADMIN_GITHUB_LOGINS?: string;
+}
+
+// Model usage metered by the LLM proxy, see src/llm-proxy.ts
+export interface LlmUsage {
+  requests: number;
+  inputTokens: number;
+  // Input tokens served from the provider's prompt cache, billed at a discount
+  cachedInputTokens: number;
+  outputTokens: number;
+  // Estimated from the list prices in src/models.ts
+  costUsd: number;
+}
+
+// Progress of a headless task's agent run, see src/tasks.ts
+export interface TaskRun {
+  startedAt?: number;
+  // Set once the agent process has exited
+  exitCode?: number;
+  finishedAt?: number;
+}
+
+// Status reported by /api/tasks, derived from the session behind the task
+export type TaskStatus = 'queued' | 'preparing' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A pull request opened from a session, see src/export.ts
+export interface PullRequestInfo {
+  url: string;
+  number: number;
+  // Repository and branch the changes were pushed to, e.g. "octocat/hello-world" and "cloudx/1a2b3c4d"
+  repository: string;
+  branch: string;
+}
+
+// A git ref requested through the launch URL, e.g. /tree/<branch>, /commit/<sha> or /pull/<number>
+export interface RepoRef {
+  type: 'branch' | 'commit' | 'pull';
+  name: string;
+}
+
+// Model providers with an API key secret in Env, see src/models.ts
+export type ProviderId = 'anthropic' | 'openai' | 'google';
+
+// Coding agent serving the session UI, see src/agents.ts
+export type AgentId = 'opencode' | 'claude-code';
+
+export type SessionStatus = 'queued' | 'initializing' | 'cloning' | 'installing' | 'starting' | 'running' | 'error' | 'stopped';
+
+// Why a session was stopped: by its owner, by the reaper, or by an operator
+export type StopReason = 'user' | 'expired' | 'idle' | 'stalled' | 'failed' | 'completed' | 'admin';
+
+// A port exposed from the sandbox besides the agent UI
+export interface PreviewInfo {
+  port: number;
+  label?: string;
+  url: string;
+  // Found listening rather than declared in the repo config; unexposed once nothing listens on it
+  detected?: boolean;
+}
+
+// Outcome of one automatic setup step, e.g. installing dependencies with npm
+export interface SetupStepResult {
+  name: string;
+  command: string;
+  success: boolean;
+  durationMs: number;
+  output?: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  repo: string;
+  repoUrl: string;
+  // Host the worker was reached on at launch, which preview URLs are built on
+  hostname?: string;
+  ref?: RepoRef;
+  filePath?: string;
+  // Monorepo directory the launch is scoped to, e.g. "packages/foo"; only it is checked out
+  subdirectory?: string;
+  // Commit checked out at launch, which snapshots are taken against
+  baseCommit?: string;
+  // Snapshot requested with ?restore= at launch
+  restoredFrom?: string;
+  private: boolean;
+  owner: string;
+  // Set from ?agent= at launch, otherwise once the repo config has been read
+  agent?: AgentId;
+  // Model allowlist ID, set the same way as the agent
+  model?: string;
+  status: SessionStatus;
+  error?: string;
+  // Last lines of the agent log, kept when startup fails
+  logTail?: string[];
+  setup?: SetupStepResult[];
+  // Repository launch configuration (.cloudx.json / .cloudx.yml)
+  configFile?: string;
+  configErrors?: string[];
+  // Environment variable names the repo asks for, and which of them the owner has provided
+  requiredEnv?: string[];
+  providedEnv?: string[];
+  // Names of the owner's secrets injected into the sandbox; values are never stored on the session
+  secrets?: string[];
+  // How the launch was served: a sandbox from the warm pool, and a workspace from the prebuild cache at this commit
+  warmSandbox?: boolean;
+  prebuildCommit?: string;
+  previewUrl?: string;
+  previews?: PreviewInfo[];
+  // Set for headless sessions created through /api/tasks
+  task?: TaskRun;
+  // Pull request opened from the session's changes
+  pullRequest?: PullRequestInfo;
+  // Model usage through the LLM proxy
+  usage?: LlmUsage;
+  createdAt: number;
+  // Place in line while queued, 1 being next; see src/scheduler.ts
+  queuePosition?: number;
+  // When the scheduler gave the session a sandbox slot
+  admittedAt?: number;
+  updatedAt?: number;
+  // Last request to the session's preview hostnames, used to reap idle sandboxes
+  lastActiveAt?: number;
+  expiresAt: number;
+  stopReason?: StopReason;
+  stoppedAt?: number;
+  // Set once the sandbox container has been torn down after a stop
+  destroyedAt?: number;
+}
+
+export type SnapshotReason = 'manual' | 'teardown';
+
+// A workspace snapshot stored in R2
+export interface SnapshotInfo {
+  id: string;
+  repo: string;
+  sessionId: string;
+  baseCommit: string;
+  reason: SnapshotReason;
+  size: number;
+  createdAt: number;
+}
+
+// How to set up a session's sandbox; held by the session's store while the session is queued
+export interface LaunchOptions {
+  sessionId: string;
+  repoUrl: string;
+  // Host the worker was reached on, used to build preview URLs
+  hostname: string;
+  ref?: RepoRef;
+  filePath?: string;
+  subdirectory?: string;
+  agent?: AgentId;
+  model?: string;
+  restore?: SnapshotInfo;
+  gitToken?: string;
+  // Owner secrets to decrypt and inject before setup runs
+  secrets?: string[];
+  // Set for headless tasks: the agent runs this prompt instead of serving its UI
+  prompt?: string;
+}
+
+// Progress pushed to /api/sessions/:id/events subscribers
+export type SessionEvent =
+  | { type: 'status'; status: SessionStatus; error?: string }
+  | { type: 'queue'; position: number }
+  | { type: 'progress'; message: string }
+  | { type: 'log'; lines: string[] };
+
+export type StoredSessionEvent = SessionEvent & { id: number; at: number };
+
+// Phases of a session recorded in its audit log, see src/audit.ts
+export type AuditEventType = 'launch' | 'clone' | 'setup' | 'start' | 'expose' | 'command' | 'error' | 'teardown';
+
+export interface AuditEvent {
+  type: AuditEventType;
+  sessionId: string;
+  repo: string;
+  // Owner ID of the session the event happened on behalf of
+  user: string;
+  at: number;
+  durationMs: number;
+  success: boolean;
+  // What the phase acted on, e.g. a setup command or an exposed port
+  detail?: string;
+}
+
+// An audit event as reported; the session's store adds the session's repo and owner
+export type AuditEntry = Omit<AuditEvent, 'sessionId' | 'repo' | 'user' | 'at'> & { at?: number };
@@ -0,0 +1,57 @@
+/**
+ * Warm sandbox pool
+ *
+ * Up to WARM_POOL_SIZE sandbox containers are started ahead of demand from
+ * capacity no session is using. A new session takes over a ready one by using
+ * its sandbox ID as the session ID, so it skips the container cold start. The
+ * cron tops the pool up, pings ready sandboxes so they do not go to sleep, and
+ * gives pooled sandboxes up again when sessions are waiting in line for a slot.
+ */
+
+import { getSandbox } from '@cloudflare/sandbox';
+import { schedulerLimits } from './scheduler';
+import { getSessionRegistry } from './session-registry';
+import type { Env } from './types';
+
+// Pooled sandboxes stay idle until claimed, so the pool is off unless configured
+export function warmPoolSize(env: Env): number {
+  const size = Number(env.WARM_POOL_SIZE);
+  return Number.isInteger(size) && size > 0 ? size : 0;
+}
+
+// Starting a container is a no-op command; it also resets the container's sleep timer
+async function wakeSandbox(env: Env, sandboxId: string): Promise<void> {
+  const result = await getSandbox(env.SANDBOX, sandboxId).exec('true', { timeout: 120000 });
+  if (!result.success) {
+    throw new Error(`Sandbox ${sandboxId} did not start`);
+  }
+}
+
+async function destroySandbox(env: Env, sandboxId: string): Promise<void> {
+  try {
+    await getSandbox(env.SANDBOX, sandboxId).destroy();
+  } catch (e) {
+    console.error(`Failed to destroy pooled sandbox ${sandboxId}:`, e);
+  }
+}
+
+export async function refillWarmPool(env: Env): Promise<void> {
+  const registry = getSessionRegistry(env);
+  const { start, keep, drop } = await registry.planWarmPool(schedulerLimits(env), warmPoolSize(env));
+
+  for (const sandboxId of drop) {
+    await destroySandbox(env, sandboxId);
+  }
+  for (const sandboxId of [...keep, ...start]) {
+    try {
+      await wakeSandbox(env, sandboxId);
+      await registry.markWarmSandboxReady(sandboxId);
+    } catch (e) {
+      // A sandbox that cannot be woken is replaced on the next run, unless a session claimed it meanwhile
+      console.error(`Failed to warm sandbox ${sandboxId}:`, e);
+      if (await registry.dropWarmSandbox(sandboxId)) {
+        await destroySandbox(env, sandboxId);
+      }
+    }
+  }
+}
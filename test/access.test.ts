@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test';
+import { isCrossOriginRequest } from '../src/access';
+
+const url = new URL('https://cloudx.test/api/sessions/abc/terminal');
+
+function upgrade(headers: Record<string, string>): Request {
+  return new Request(url, { headers: { Upgrade: 'websocket', Connection: 'Upgrade', ...headers } });
+}
+
+describe('cross-origin requests', () => {
+  test('refuse a WebSocket upgrade opened by another site', () => {
+    expect(isCrossOriginRequest(upgrade({ Origin: 'https://attacker.example' }), url)).toBe(true);
+    expect(isCrossOriginRequest(upgrade({ Origin: 'https://abc.cloudx.test' }), url)).toBe(true);
+    expect(isCrossOriginRequest(upgrade({ Origin: 'null' }), url)).toBe(true);
+  });
+
+  test('allow a WebSocket upgrade from the session page', () => {
+    expect(isCrossOriginRequest(upgrade({ Origin: 'https://cloudx.test' }), url)).toBe(false);
+  });
+
+  test('fall back to Sec-Fetch-Site without an Origin header', () => {
+    const post = (site: string) => new Request(url, { method: 'POST', headers: { 'Sec-Fetch-Site': site } });
+    expect(isCrossOriginRequest(post('cross-site'), url)).toBe(true);
+    expect(isCrossOriginRequest(post('same-site'), url)).toBe(true);
+    expect(isCrossOriginRequest(post('same-origin'), url)).toBe(false);
+  });
+
+  test('allow clients that are not browsers', () => {
+    expect(isCrossOriginRequest(new Request(url, { method: 'POST' }), url)).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import { getAuthUser, handleAuthCallback, handleAuthLogin, signValue, verifySignedValue } from '../src/auth';
+import type { Env } from '../src/types';
+import { type GitHubStandIn, startGitHubStandIn } from './github-stand-in';
+import { responseCookies, testEnv } from './helpers';
+
+const octocat = { id: 1, login: 'octocat', token: 'gho_octocat' };
+const standIn: GitHubStandIn = startGitHubStandIn([octocat]);
+const origin = 'https://cloudx.test';
+
+let env: Env;
+beforeEach(() => {
+  env = testEnv({
+    GITHUB_CLIENT_ID: standIn.clientId,
+    GITHUB_CLIENT_SECRET: standIn.clientSecret,
+    GITHUB_OAUTH_URL: standIn.url,
+    GITHUB_API_URL: standIn.url,
+  });
+});
+
+afterAll(() => standIn.stop());
+
+// Start a sign-in and let the stand-in approve it, returning the callback URL and the state cookie
+async function authorize(redirect = '/session/abc'): Promise<{ callback: URL; state: string }> {
+  const login = await handleAuthLogin(env, new URL(`/auth/login?redirect=${encodeURIComponent(redirect)}`, origin));
+  expect(login.status).toBe(302);
+  const approval = await fetch(login.headers.get('Location')!, { redirect: 'manual' });
+  return { callback: new URL(approval.headers.get('Location')!), state: responseCookies(login).cloudx_oauth_state };
+}
+
+function callbackRequest(callback: URL, stateCookie?: string): Request {
+  return new Request(callback, { headers: stateCookie ? { Cookie: `cloudx_oauth_state=${stateCookie}` } : {} });
+}
+
+describe('cookie signing', () => {
+  test('verifies a value it signed', async () => {
+    const signed = await signValue('auth.id.with.dots', 'secret');
+    expect(await verifySignedValue(signed, 'secret')).toBe('auth.id.with.dots');
+  });
+
+  test('rejects a tampered value or signature', async () => {
+    const signed = await signValue('auth-id', 'secret');
+    const [, signature] = signed.split('.');
+    expect(await verifySignedValue(`other-id.${signature}`, 'secret')).toBeNull();
+    expect(await verifySignedValue(`${signed}x`, 'secret')).toBeNull();
+    expect(await verifySignedValue('auth-id', 'secret')).toBeNull();
+  });
+
+  test('rejects a value signed with another secret', async () => {
+    expect(await verifySignedValue(await signValue('auth-id', 'secret'), 'other-secret')).toBeNull();
+  });
+});
+
+describe('OAuth sign-in', () => {
+  test('signs the user in and keeps their token in KV only', async () => {
+    const { callback, state } = await authorize();
+    const response = await handleAuthCallback(callbackRequest(callback, state), env, callback);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/session/abc');
+    const cookies = responseCookies(response);
+    expect(cookies.cloudx_oauth_state).toBe('');
+    expect(cookies.cloudx_session).not.toContain(octocat.token);
+
+    const user = await getAuthUser(new Request(origin, { headers: { Cookie: `cloudx_session=${cookies.cloudx_session}` } }), env);
+    expect(user).toEqual(octocat);
+  });
+
+  test('sends the client secret only in the token exchange', async () => {
+    const { callback, state } = await authorize();
+    await handleAuthCallback(callbackRequest(callback, state), env, callback);
+
+    const exchange = standIn.requests.filter((request) => request.path === '/login/oauth/access_token').at(-1);
+    expect(exchange?.body).toMatchObject({ client_id: standIn.clientId, client_secret: standIn.clientSecret });
+    const authorizeRequest = standIn.requests.filter((request) => request.path === '/login/oauth/authorize').at(-1);
+    expect(JSON.stringify(authorizeRequest)).not.toContain(standIn.clientSecret);
+  });
+
+  test('rejects a state that does not match the cookie', async () => {
+    const { callback } = await authorize();
+    const { state: otherState } = await authorize();
+    const response = await handleAuthCallback(callbackRequest(callback, otherState), env, callback);
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe('Invalid OAuth state');
+  });
+
+  test('rejects a callback without the state cookie', async () => {
+    const { callback } = await authorize();
+    const response = await handleAuthCallback(callbackRequest(callback), env, callback);
+    expect(response.status).toBe(400);
+  });
+
+  test('accepts each state once', async () => {
+    const { callback, state } = await authorize();
+    expect((await handleAuthCallback(callbackRequest(callback, state), env, callback)).status).toBe(302);
+    const replay = await handleAuthCallback(callbackRequest(callback, state), env, callback);
+    expect(replay.status).toBe(400);
+    expect(await replay.text()).toContain('expired');
+  });
+
+  test('only redirects to paths on the same origin', async () => {
+    const { callback, state } = await authorize('//evil.example/phish');
+    const response = await handleAuthCallback(callbackRequest(callback, state), env, callback);
+    expect(response.headers.get('Location')).toBe('/');
+  });
+
+  test('ignores a session cookie signed with another secret', async () => {
+    const { callback, state } = await authorize();
+    const { cloudx_session } = responseCookies(await handleAuthCallback(callbackRequest(callback, state), env, callback));
+    const request = new Request(origin, { headers: { Cookie: `cloudx_session=${cloudx_session}` } });
+    expect(await getAuthUser(request, { ...env, SESSION_SECRET: 'rotated' })).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import type { Sandbox } from '@cloudflare/sandbox';
+import { ProtectedBranchError, openPullRequest } from '../src/export';
+import type { SessionInfo } from '../src/types';
+import { startGitHubStandIn } from './github-stand-in';
+import { testEnv } from './helpers';
+
+const octocat = { id: 1, login: 'octocat', token: 'gho_octocat' };
+const hubot = { id: 2, login: 'hubot', token: 'gho_hubot' };
+const standIn = startGitHubStandIn([octocat, hubot]);
+standIn.repos.set('octocat/hello-world', { collaborators: ['octocat'] });
+standIn.repos.set('octocat/rules', { collaborators: ['octocat', 'hubot'] });
+
+afterAll(() => standIn.stop());
+
+const env = testEnv({ GITHUB_API_URL: standIn.url, GITHUB_OAUTH_URL: standIn.url });
+
+function session(repo: string): SessionInfo {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    repo,
+    repoUrl: `https://github.com/${repo}.git`,
+    private: false,
+    owner: 'github:2',
+    status: 'running',
+    createdAt: now,
+    expiresAt: now + 3600 * 1000,
+    baseCommit: 'a'.repeat(40),
+    ref: { type: 'branch', name: 'main' },
+  };
+}
+
+/**
+ * A sandbox whose workspace holds `patch` as its changes. Pushes to the listed
+ * repositories are rejected the way GitHub rejects pushes to protected branches.
+ */
+function fakeWorkspace(patch: string, protectedRepos: string[] = []) {
+  const pushes: string[] = [];
+  const commands: string[] = [];
+  const ok = (stdout = '') => ({ success: true, exitCode: 0, stdout, stderr: '' });
+  const exec = async (command: string) => {
+    commands.push(command);
+    const push = command.match(/\/([^/]+\/[^/]+)\.git' '[^:]+:refs\/heads\/([^']+)'/);
+    if (push) {
+      const [, repository, branch] = push;
+      if (protectedRepos.includes(repository)) {
+        return {
+          success: false,
+          exitCode: 1,
+          stdout: '',
+          stderr: `remote: error: GH006: Protected branch update failed for refs/heads/${branch}.`,
+        };
+      }
+      pushes.push(`${repository}:${branch}`);
+      return ok();
+    }
+    if (command.includes('git write-tree')) {
+      return ok('c0ffee changed-tree base-tree');
+    }
+    return ok(' README.md | 1 +');
+  };
+  const sandbox = {
+    exec,
+    async readFile() {
+      return { content: patch };
+    },
+    async writeFile() {},
+    async createSession() {
+      return { id: 'git', exec };
+    },
+    async deleteSession() {},
+  };
+  return { sandbox: sandbox as unknown as Sandbox, pushes, commands };
+}
+
+const PATCH = 'diff --git a/README.md b/README.md\n+Hello\n';
+
+describe('opening a pull request', () => {
+  test('pushes to a fork when the user cannot push to the repository', async () => {
+    const info = session('octocat/hello-world');
+    const { sandbox, pushes } = fakeWorkspace(PATCH);
+    const opened = await openPullRequest(env, sandbox, info, '/workspace', [], hubot, { title: 'Say hello', body: 'Adds a greeting.' });
+
+    const branch = `cloudx/${info.id.slice(0, 8)}`;
+    expect(opened?.created).toBe(true);
+    expect(opened?.pullRequest.repository).toBe('hubot/hello-world');
+    expect(pushes).toEqual([`hubot/hello-world:${branch}`]);
+    expect(standIn.pullRequests.at(-1)).toMatchObject({
+      repo: 'octocat/hello-world',
+      head: `hubot:${branch}`,
+      base: 'main',
+      title: 'Say hello',
+    });
+    expect(standIn.repos.get('hubot/hello-world')?.collaborators).toEqual(['hubot']);
+  });
+
+  test('falls back to a fork when the repository rejects the branch', async () => {
+    const info = session('octocat/rules');
+    const { sandbox, pushes } = fakeWorkspace(PATCH, ['octocat/rules']);
+    const opened = await openPullRequest(env, sandbox, info, '/workspace', [], hubot, { title: 'Say hello', body: 'Adds a greeting.' });
+
+    expect(opened?.pullRequest.repository).toBe('hubot/rules');
+    expect(pushes).toEqual([`hubot/rules:cloudx/${info.id.slice(0, 8)}`]);
+    expect(standIn.pullRequests.at(-1)).toMatchObject({ repo: 'octocat/rules', head: `hubot:cloudx/${info.id.slice(0, 8)}` });
+  });
+
+  test('reports a protected branch the fork rejects too', async () => {
+    const info = session('octocat/rules');
+    const { sandbox } = fakeWorkspace(PATCH, ['octocat/rules', 'hubot/rules']);
+    const opening = openPullRequest(env, sandbox, info, '/workspace', [], hubot, { title: 'Say hello', body: 'Adds a greeting.' });
+    await expect(opening).rejects.toBeInstanceOf(ProtectedBranchError);
+  });
+
+  test('reports a protected branch when updating an existing pull request', async () => {
+    const info = {
+      ...session('octocat/hello-world'),
+      pullRequest: { url: 'https://github.com/octocat/hello-world/pull/1', number: 1, repository: 'hubot/hello-world', branch: 'cloudx/1a2b3c4d' },
+    };
+    const { sandbox } = fakeWorkspace(PATCH, ['hubot/hello-world']);
+    const opening = openPullRequest(env, sandbox, info, '/workspace', [], hubot);
+    await expect(opening).rejects.toThrow('hubot/hello-world does not accept pushes to cloudx/1a2b3c4d, the branch is protected');
+  });
+
+  test('opens nothing when the workspace has no changes', async () => {
+    const requestsBefore = standIn.requests.length;
+    const { sandbox, pushes, commands } = fakeWorkspace('');
+    expect(await openPullRequest(env, sandbox, session('octocat/hello-world'), '/workspace', [], hubot)).toBeNull();
+
+    expect(pushes).toEqual([]);
+    expect(commands.some((command) => command.includes('git write-tree'))).toBe(false);
+    expect(standIn.requests.length).toBe(requestsBefore);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { gitHostFor, parseRepoLocation } from '../src/git-hosts';
+import { testEnv } from './helpers';
+
+function parse(path: string) {
+  return parseRepoLocation(path.split('/').filter(Boolean));
+}
+
+describe('launch URLs on other hosts', () => {
+  test('launch the default branch of a repository on another host', () => {
+    const { repo, refSegments } = parse('/git.sr.ht/~user/project.git');
+    expect(repo?.cloneUrl).toBe('https://git.sr.ht/~user/project.git');
+    expect(refSegments).toEqual([]);
+  });
+
+  test('reject ref URLs on another host', () => {
+    expect(parse('/git.example.com/group/project/tree/main').error).toBe(
+      'Only the default branch can be launched from this host, /tree URLs are not supported'
+    );
+    expect(parse('/gitlab.example.com/group/project/-/commit/0123abc').error).toBe(
+      'Only the default branch can be launched from this host, /- URLs are not supported'
+    );
+    expect(parse('/git.example.com/group/project/pull/1').repo).toBeUndefined();
+  });
+
+  test('reject pull requests on hosts that do not publish their refs', () => {
+    for (const path of ['/bitbucket.org/workspace/repo/pull-requests/7', '/bitbucket.org/workspace/repo/pull/7']) {
+      expect(parse(path).error).toBe('Bitbucket pull requests cannot be launched directly, launch their branch instead');
+    }
+    expect(parse('/codeberg.org/owner/repo/pulls/7').refSegments).toEqual(['pull', '7']);
+  });
+});
+
+describe('private and reserved hostnames', () => {
+  test('reject hostnames that may name a private address', () => {
+    for (const hostname of [
+      'localhost',
+      'git.localhost',
+      'gitlab.internal',
+      'git.corp',
+      'nas.home.arpa',
+      'printer.local',
+      'git.test',
+      '10.0.0.1.nip.io',
+      '192-168-1-10.sslip.io',
+    ]) {
+      expect(parse(`/${hostname}/group/project`).error).toBe('Private and reserved hostnames cannot be launched');
+      expect(gitHostFor(hostname)).toBeNull();
+    }
+  });
+
+  test('reject IP addresses and single-label names', () => {
+    for (const hostname of ['127.0.0.1', '169.254.169.254', 'gitserver', '[::1]']) {
+      expect(parse(`/${hostname}/group/project`).repo).toBeUndefined();
+    }
+  });
+
+  test('accept public hostnames with digits in them', () => {
+    expect(parse('/git.42.example.org/group/project').repo?.cloneUrl).toBe('https://git.42.example.org/group/project');
+  });
+});
+
+describe('public repository check', () => {
+  const env = testEnv({ GITHUB_API_URL: 'http://127.0.0.1:1' });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('refuse repositories on other hosts when the host rate limits the check', async () => {
+    for (const status of [403, 429]) {
+      const fetch = spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status }));
+      const access = await gitHostFor('git.example.org')!.checkAccess(env, 'git.example.org', 'group/project');
+      expect(access).toEqual({
+        accessible: false,
+        unverified: true,
+        error: 'Could not verify the repository on git.example.org. Please try again in a few minutes.',
+      });
+      expect(String(fetch.mock.calls[0][0])).toBe('https://git.example.org/group/project/info/refs?service=git-upload-pack');
+      mock.restore();
+    }
+  });
+
+  test('refuse repositories on other hosts when the host does not answer', async () => {
+    spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+    spyOn(console, 'error').mockImplementation(() => {});
+    const access = await gitHostFor('gitlab.com')!.checkAccess(env, 'gitlab.com', 'group/project');
+    expect(access.accessible).toBe(false);
+    expect(access.unverified).toBe(true);
+  });
+
+  test('tell visitors GitHub could not be asked instead of opening the repository', async () => {
+    spyOn(console, 'error').mockImplementation(() => {});
+    const access = await gitHostFor('github.com')!.checkAccess(env, 'github.com', 'octocat/hello-world');
+    expect(access).toEqual({
+      accessible: false,
+      unverified: true,
+      error: 'Could not verify the repository on GitHub. Please try again in a few minutes.',
+    });
+  });
+});
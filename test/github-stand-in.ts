@@ -0,0 +1,178 @@
+/**
+ * Local stand-in for GitHub
+ *
+ * Serves the OAuth endpoints and the parts of the REST API the worker calls, from
+ * in-memory state, so sign-in and private repository access can be tested without
+ * reaching GitHub. Point GITHUB_OAUTH_URL and GITHUB_API_URL at `url`; the stand-in
+ * serves both. The authorize endpoint approves every request at once, as if the
+ * user had clicked through GitHub's consent screen, and forks are ready as soon as
+ * they are requested.
+ */
+
+export interface StandInUser {
+  id: number;
+  login: string;
+  token: string;
+}
+
+export interface StandInRepo {
+  private?: boolean;
+  defaultBranch?: string;
+  // Logins allowed to push; everyone who can see the repository can read it
+  collaborators?: string[];
+}
+
+export interface StandInPullRequest {
+  repo: string;
+  number: number;
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+}
+
+export interface StandInRequest {
+  method: string;
+  path: string;
+  authorization: string | null;
+  body: unknown;
+}
+
+export interface GitHubStandIn {
+  url: string;
+  clientId: string;
+  clientSecret: string;
+  repos: Map<string, StandInRepo>;
+  pullRequests: StandInPullRequest[];
+  // Every request served, oldest first
+  requests: StandInRequest[];
+  // Sign the given user in on the next authorize request
+  signIn(user: StandInUser): void;
+  stop(): void;
+}
+
+export function startGitHubStandIn(users: StandInUser[]): GitHubStandIn {
+  const clientId = 'stand-in-client';
+  const clientSecret = 'stand-in-secret';
+  const repos = new Map<string, StandInRepo>();
+  const requests: StandInRequest[] = [];
+  const pullRequests: StandInPullRequest[] = [];
+  // Authorization codes handed out, until they are exchanged
+  const codes = new Map<string, StandInUser>();
+  let signedIn = users[0];
+
+  const userForToken = (authorization: string | null) =>
+    users.find((user) => authorization === `Bearer ${user.token}`) ?? null;
+
+  const canSee = (repo: StandInRepo, user: StandInUser | null) =>
+    !repo.private || Boolean(user && repo.collaborators?.includes(user.login));
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const text = await request.text();
+      let body: unknown = text;
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch {
+        // Form bodies are kept as text
+      }
+      const authorization = request.headers.get('Authorization');
+      requests.push({ method: request.method, path: url.pathname, authorization, body });
+
+      if (url.pathname === '/login/oauth/authorize') {
+        const code = crypto.randomUUID();
+        codes.set(code, signedIn);
+        const callback = new URL(url.searchParams.get('redirect_uri')!);
+        callback.searchParams.set('code', code);
+        callback.searchParams.set('state', url.searchParams.get('state')!);
+        return Response.redirect(callback.toString(), 302);
+      }
+
+      if (url.pathname === '/login/oauth/access_token' && request.method === 'POST') {
+        const { client_id, client_secret, code } = body as Record<string, string>;
+        const user = codes.get(code);
+        codes.delete(code);
+        if (client_id !== clientId || client_secret !== clientSecret || !user) {
+          return Response.json({ error: 'bad_verification_code' });
+        }
+        return Response.json({ access_token: user.token, token_type: 'bearer', scope: 'read:user,repo' });
+      }
+
+      if (url.pathname === '/user') {
+        const user = userForToken(authorization);
+        return user ? Response.json({ id: user.id, login: user.login }) : Response.json({ message: 'Bad credentials' }, { status: 401 });
+      }
+
+      const repoMatch = url.pathname.match(/^\/repos\/([^/]+\/[^/]+)$/);
+      if (repoMatch && request.method === 'GET') {
+        const user = userForToken(authorization);
+        const repo = repos.get(repoMatch[1]);
+        if (!repo || !canSee(repo, user)) {
+          return Response.json({ message: 'Not Found' }, { status: 404 });
+        }
+        return Response.json({
+          full_name: repoMatch[1],
+          private: Boolean(repo.private),
+          default_branch: repo.defaultBranch ?? 'main',
+          owner: { login: repoMatch[1].split('/')[0] },
+          ...(user ? { permissions: { push: Boolean(repo.collaborators?.includes(user.login)) } } : {}),
+        });
+      }
+
+      const forkMatch = url.pathname.match(/^\/repos\/([^/]+\/([^/]+))\/forks$/);
+      if (forkMatch && request.method === 'POST') {
+        const user = userForToken(authorization);
+        const repo = repos.get(forkMatch[1]);
+        if (!user || !repo || !canSee(repo, user)) {
+          return Response.json({ message: 'Not Found' }, { status: 404 });
+        }
+        const fork = `${user.login}/${forkMatch[2]}`;
+        if (!repos.has(fork)) {
+          repos.set(fork, { private: repo.private, defaultBranch: repo.defaultBranch, collaborators: [user.login] });
+        }
+        return Response.json(
+          { full_name: fork, default_branch: repo.defaultBranch ?? 'main', owner: { login: user.login } },
+          { status: 202 }
+        );
+      }
+
+      const pullsMatch = url.pathname.match(/^\/repos\/([^/]+\/[^/]+)\/pulls$/);
+      if (pullsMatch && request.method === 'POST') {
+        const user = userForToken(authorization);
+        const repo = repos.get(pullsMatch[1]);
+        if (!user || !repo || !canSee(repo, user)) {
+          return Response.json({ message: 'Not Found' }, { status: 404 });
+        }
+        const { title, body: description, head, base } = body as Record<string, string>;
+        if (!title || !head || !base) {
+          return Response.json({ message: 'Validation Failed', errors: [{ message: 'title, head and base are required' }] }, { status: 422 });
+        }
+        const pullRequest = { repo: pullsMatch[1], number: pullRequests.length + 1, title, body: description, head, base };
+        pullRequests.push(pullRequest);
+        return Response.json(
+          { number: pullRequest.number, html_url: `https://github.com/${pullRequest.repo}/pull/${pullRequest.number}` },
+          { status: 201 }
+        );
+      }
+
+      return Response.json({ message: 'Not Found' }, { status: 404 });
+    },
+  });
+
+  return {
+    url: server.url.origin,
+    clientId,
+    clientSecret,
+    repos,
+    pullRequests,
+    requests,
+    signIn(user) {
+      signedIn = user;
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
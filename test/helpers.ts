@@ -0,0 +1,52 @@
+/**
+ * Test doubles for the worker's bindings
+ */
+
+import type { Env } from '../src/types';
+
+// The subset of KV the worker uses, kept in memory; expiration is not modelled
+export function memoryKV(): KVNamespace {
+  const values = new Map<string, string>();
+  const metadata = new Map<string, unknown>();
+  const kv = {
+    async get(key: string, type?: string) {
+      const value = values.get(key) ?? null;
+      return value !== null && type === 'json' ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string, options: { metadata?: unknown } = {}) {
+      values.set(key, value);
+      metadata.set(key, options.metadata);
+    },
+    async delete(key: string) {
+      values.delete(key);
+      metadata.delete(key);
+    },
+    async list(options: { prefix?: string } = {}) {
+      const keys = [...values.keys()].filter((key) => key.startsWith(options.prefix ?? '')).sort();
+      return { keys: keys.map((name) => ({ name, metadata: metadata.get(name) })), list_complete: true, cacheStatus: null };
+    },
+  };
+  return kv as unknown as KVNamespace;
+}
+
+export function testEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    CACHE: memoryKV(),
+    ENVIRONMENT: 'test',
+    ANTHROPIC_API_KEY: '',
+    SESSION_SECRET: 'test-session-secret',
+    ...overrides,
+  } as Env;
+}
+
+// The name=value pairs of a response's Set-Cookie headers
+export function responseCookies(response: Response): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  // Set-Cookie headers cannot be joined into one, so they are read one by one
+  for (const header of (response.headers as Headers & { getSetCookie(): string[] }).getSetCookie()) {
+    const [pair] = header.split(';');
+    const index = pair.indexOf('=');
+    cookies[pair.slice(0, index)] = pair.slice(index + 1);
+  }
+  return cookies;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  estimateTokens,
+  meterResponse,
+  outstandingReservations,
+  prepareBody,
+  priceUsage,
+  spendCapRefusal,
+} from '../src/metering';
+import { modelPricing } from '../src/models';
+
+function stream(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+function events(...payloads: unknown[]): string {
+  return payloads.map((payload) => `data: ${JSON.stringify(payload)}\n\n`).join('');
+}
+
+describe('meterResponse', () => {
+  test('totals an Anthropic stream, counting cache writes as input', async () => {
+    const body = events(
+      { type: 'message_start', message: { usage: { input_tokens: 100, cache_creation_input_tokens: 20, cache_read_input_tokens: 300, output_tokens: 1 } } },
+      { type: 'content_block_delta', delta: { text: 'Hello' } },
+      { type: 'message_delta', usage: { output_tokens: 42 } },
+    );
+    // Events split across chunks are still read whole
+    const counts = await meterResponse('anthropic', stream(body.slice(0, 50), body.slice(50)));
+    expect(counts).toEqual({ input: 120, cachedInput: 300, output: 42 });
+  });
+
+  test('reads an Anthropic JSON response', async () => {
+    const body = JSON.stringify({ content: [], usage: { input_tokens: 10, cache_read_input_tokens: 5, output_tokens: 7 } });
+    expect(await meterResponse('anthropic', stream(body))).toEqual({ input: 10, cachedInput: 5, output: 7 });
+  });
+
+  test('reads OpenAI chat usage from the last stream event, without the cached tokens in the input', async () => {
+    const body = events(
+      { choices: [{ delta: { content: 'Hi' } }] },
+      { choices: [], usage: { prompt_tokens: 1000, completion_tokens: 50, prompt_tokens_details: { cached_tokens: 800 } } },
+    ) + 'data: [DONE]\n\n';
+    expect(await meterResponse('openai', stream(body))).toEqual({ input: 200, cachedInput: 800, output: 50 });
+  });
+
+  test('reads OpenAI Responses API usage', async () => {
+    const body = events({ type: 'response.completed', response: { usage: { input_tokens: 30, output_tokens: 12 } } });
+    expect(await meterResponse('openai', stream(body))).toEqual({ input: 30, cachedInput: 0, output: 12 });
+  });
+
+  test('returns null when the response reports no usage', async () => {
+    expect(await meterResponse('anthropic', stream(JSON.stringify({ content: [] })))).toBeNull();
+    expect(await meterResponse('openai', stream('not json'))).toBeNull();
+  });
+});
+
+describe('prepareBody', () => {
+  test('asks streaming OpenAI chat requests to include usage', () => {
+    const body = JSON.stringify({ model: 'gpt-5', stream: true, stream_options: { foo: 1 }, max_completion_tokens: 500 });
+    const prepared = prepareBody('openai', '/v1/chat/completions', body);
+    expect(JSON.parse(prepared.body).stream_options).toEqual({ foo: 1, include_usage: true });
+    expect(prepared.model).toBe('gpt-5');
+    expect(prepared.maxOutputTokens).toBe(500);
+  });
+
+  test('leaves other requests unchanged', () => {
+    const chat = JSON.stringify({ model: 'gpt-5', stream: false });
+    expect(prepareBody('openai', '/v1/chat/completions', chat).body).toBe(chat);
+    const messages = JSON.stringify({ model: 'claude-opus-4-5', stream: true, max_tokens: 8192 });
+    expect(prepareBody('anthropic', '/v1/messages', messages)).toEqual({ body: messages, model: 'claude-opus-4-5', maxOutputTokens: 8192 });
+  });
+
+  test('reads the output cap from Google generation config', () => {
+    const body = JSON.stringify({ generationConfig: { maxOutputTokens: 2048 } });
+    expect(prepareBody('google', '/v1beta/models/gemini-2.5-pro:generateContent', body).maxOutputTokens).toBe(2048);
+  });
+});
+
+describe('modelPricing', () => {
+  test('prices allowlisted models and their dated IDs', () => {
+    expect(modelPricing('anthropic', 'claude-haiku-4-5')).toEqual({ input: 1, cachedInput: 0.1, output: 5 });
+    expect(modelPricing('anthropic', 'claude-haiku-4-5-20251001')).toEqual({ input: 1, cachedInput: 0.1, output: 5 });
+  });
+
+  test('does not price models outside the allowlist or from another provider', () => {
+    expect(modelPricing('anthropic', 'claude-3-opus')).toBeNull();
+    expect(modelPricing('anthropic', 'claude-haiku-4-50')).toBeNull();
+    expect(modelPricing('openai', 'claude-opus-4-5')).toBeNull();
+  });
+
+  test('prices usage per million tokens', () => {
+    const usage = priceUsage(modelPricing('anthropic', 'claude-opus-4-5')!, { input: 1_000_000, cachedInput: 1_000_000, output: 100_000 });
+    expect(usage.costUsd).toBeCloseTo(5 + 0.5 + 2.5);
+  });
+});
+
+describe('spend caps', () => {
+  const caps = { session: 10, daily: 25 };
+
+  test('refuse requests once spent and held reaches a cap', () => {
+    expect(spendCapRefusal(caps, 'session', 9.99)).toBeNull();
+    expect(spendCapRefusal(caps, 'session', 10)).toBe('This session has reached its model spend cap of $10.00');
+    expect(spendCapRefusal(caps, 'daily', 24)).toBeNull();
+    expect(spendCapRefusal(caps, 'daily', 26)).toBe("You have reached today's model spend cap of $25.00");
+  });
+
+  test('count holds in flight until they go stale', () => {
+    const now = Date.now();
+    const reservations = new Map([
+      ['reservation:a', { costUsd: 2, at: now - 1000 }],
+      ['reservation:b', { costUsd: 3, at: now - 60 * 60 * 1000 }],
+    ]);
+    expect(outstandingReservations(reservations, now)).toEqual({ reservedUsd: 2, stale: ['reservation:b'] });
+  });
+
+  test('hold the whole output a request allows', () => {
+    const request = prepareBody('anthropic', '/v1/messages', JSON.stringify({ model: 'claude-opus-4-5', max_tokens: 1000 }));
+    expect(estimateTokens(request)).toEqual({ input: Math.ceil(request.body.length / 4), cachedInput: 0, output: 1000 });
+    expect(estimateTokens({ body: '' }).output).toBe(32000);
+  });
+});
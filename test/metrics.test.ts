@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { emptyMetricTotals, observeAuditEvent, renderMetrics } from '../src/metrics';
+import type { AuditEvent } from '../src/types';
+
+function event(type: AuditEvent['type'], durationMs: number, success = true): AuditEvent {
+  return { type, sessionId: 's1', repo: 'octocat/hello-world', user: 'github:1', at: 0, durationMs, success };
+}
+
+const gauges = { sessions: { running: 2, queued: 1 }, warmSandboxes: { ready: 3, starting: 0 } };
+
+describe('renderMetrics', () => {
+  test('counts events by type and outcome', () => {
+    const totals = [event('clone', 1200), event('clone', 800, false), event('clone', 400)].reduce(observeAuditEvent, emptyMetricTotals());
+    const lines = renderMetrics(totals, gauges).split('\n');
+    expect(lines).toContain('cloudx_audit_events_total{type="clone",outcome="success"} 2');
+    expect(lines).toContain('cloudx_audit_events_total{type="clone",outcome="failure"} 1');
+  });
+
+  test('renders cumulative duration buckets ending in +Inf', () => {
+    const totals = [event('setup', 300), event('setup', 2000), event('setup', 900_000)].reduce(observeAuditEvent, emptyMetricTotals());
+    const lines = renderMetrics(totals, gauges).split('\n');
+    expect(lines).toContain('cloudx_phase_duration_seconds_bucket{phase="setup",le="0.1"} 0');
+    expect(lines).toContain('cloudx_phase_duration_seconds_bucket{phase="setup",le="0.5"} 1');
+    expect(lines).toContain('cloudx_phase_duration_seconds_bucket{phase="setup",le="2.5"} 2');
+    expect(lines).toContain('cloudx_phase_duration_seconds_bucket{phase="setup",le="600"} 2');
+    expect(lines).toContain('cloudx_phase_duration_seconds_bucket{phase="setup",le="+Inf"} 3');
+    expect(lines).toContain('cloudx_phase_duration_seconds_sum{phase="setup"} 902.3');
+    expect(lines).toContain('cloudx_phase_duration_seconds_count{phase="setup"} 3');
+  });
+
+  test('renders the session and warm pool gauges', () => {
+    const text = renderMetrics(emptyMetricTotals(), gauges);
+    expect(text).toContain('# TYPE cloudx_sessions gauge\ncloudx_sessions{status="queued"} 1\ncloudx_sessions{status="running"} 2\n');
+    expect(text).toContain('cloudx_warm_sandboxes{state="ready"} 3\ncloudx_warm_sandboxes{state="starting"} 0\n');
+  });
+
+  test('escapes label values', () => {
+    const totals = observeAuditEvent(emptyMetricTotals(), event('command', 10));
+    totals.events['say "hi":success'] = 1;
+    expect(renderMetrics(totals, gauges)).toContain('cloudx_audit_events_total{type="say \\"hi\\"",outcome="success"} 1');
+  });
+});
@@ -0,0 +1,97 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import type { Sandbox } from '@cloudflare/sandbox';
+import { withGitCredentials } from '../src/git';
+import { gitHostFor } from '../src/git-hosts';
+import { startGitHubStandIn } from './github-stand-in';
+import { testEnv } from './helpers';
+
+const octocat = { id: 1, login: 'octocat', token: 'gho_octocat' };
+const hubot = { id: 2, login: 'hubot', token: 'gho_hubot' };
+const standIn = startGitHubStandIn([octocat, hubot]);
+standIn.repos.set('octocat/secret', { private: true, collaborators: ['octocat'] });
+standIn.repos.set('octocat/hello-world', {});
+
+afterAll(() => standIn.stop());
+
+describe('GitHub access check', () => {
+  const github = gitHostFor('github.com')!;
+  const env = testEnv({ GITHUB_API_URL: standIn.url });
+
+  test('opens a private repository with the token of a user who can see it', async () => {
+    expect(await github.checkAccess(env, 'github.com', 'octocat/secret', octocat.token))
+      .toEqual({ accessible: true, private: true });
+    expect(standIn.requests.at(-1)?.authorization).toBe(`Bearer ${octocat.token}`);
+  });
+
+  test('asks anonymous visitors to sign in for a repository it cannot see', async () => {
+    const access = await github.checkAccess(env, 'github.com', 'octocat/secret');
+    expect(access.accessible).toBe(false);
+    expect(access.error).toContain('sign in with GitHub');
+    expect(standIn.requests.at(-1)?.authorization).toBeNull();
+  });
+
+  test('tells signed-in users their account has no access', async () => {
+    const access = await github.checkAccess(env, 'github.com', 'octocat/secret', hubot.token);
+    expect(access.accessible).toBe(false);
+    expect(access.error).toContain('your GitHub account has access');
+  });
+
+  test('marks public repositories as such', async () => {
+    expect(await github.checkAccess(env, 'github.com', 'octocat/hello-world'))
+      .toEqual({ accessible: true, private: false });
+  });
+});
+
+// Records how git work reaches the sandbox
+function fakeSandbox() {
+  const calls = {
+    sessions: [] as Array<{ env: Record<string, string>; isolation?: boolean }>,
+    deleted: [] as string[],
+    commands: [] as string[],
+  };
+  const exec = async (command: string) => {
+    calls.commands.push(command);
+    return { success: true, exitCode: 0, stdout: '', stderr: '' };
+  };
+  const sandbox = {
+    exec,
+    async createSession(options: { env: Record<string, string>; isolation?: boolean }) {
+      calls.sessions.push(options);
+      return { id: `git-${calls.sessions.length}`, exec };
+    },
+    async deleteSession(id: string) {
+      calls.deleted.push(id);
+    },
+  };
+  return { sandbox: sandbox as unknown as Sandbox, calls };
+}
+
+describe('git credentials', () => {
+  test('hand the token to git as configuration of an isolated session', async () => {
+    const { sandbox, calls } = fakeSandbox();
+    await withGitCredentials(sandbox, octocat.token, (git) => git.exec('git clone https://github.com/octocat/secret.git'));
+
+    expect(calls.sessions).toHaveLength(1);
+    const [session] = calls.sessions;
+    expect(session.isolation).toBe(true);
+    expect(session.env.GIT_CONFIG_KEY_0).toBe('http.https://github.com/.extraheader');
+    expect(session.env.GIT_CONFIG_VALUE_0).toBe(`AUTHORIZATION: basic ${btoa(`x-access-token:${octocat.token}`)}`);
+    expect(calls.commands.join('\n')).not.toContain(octocat.token);
+  });
+
+  test('delete the session holding the token even when the git work fails', async () => {
+    const { sandbox, calls } = fakeSandbox();
+    const clone = withGitCredentials(sandbox, octocat.token, async () => {
+      throw new Error('clone failed');
+    });
+    await expect(clone).rejects.toThrow('clone failed');
+    expect(calls.deleted).toEqual(['git-1']);
+  });
+
+  test('use the sandbox directly for public repositories', async () => {
+    const { sandbox, calls } = fakeSandbox();
+    await withGitCredentials(sandbox, undefined, (git) => git.exec('git clone https://github.com/octocat/hello-world.git'));
+    expect(calls.sessions).toHaveLength(0);
+    expect(calls.commands).toEqual(['git clone https://github.com/octocat/hello-world.git']);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, mock, setSystemTime, test } from 'bun:test';
+import type { Env } from '../src/types';
+import { testEnv } from './helpers';
+
+// Durable Objects only need their state and env here, which the runtime base class would hold
+mock.module('cloudflare:workers', () => ({
+  DurableObject: class {
+    constructor(protected ctx: unknown, protected env: unknown) {}
+  },
+}));
+const { RateLimiter, checkLaunchLimits } = await import('../src/rate-limit');
+
+const HOUR_MS = 3600 * 1000;
+
+// A RateLimiter with its own in-memory storage
+function rateLimiter(): InstanceType<typeof RateLimiter> {
+  const values = new Map<string, unknown>();
+  let alarm: number | null = null;
+  const storage = {
+    get: async (key: string) => values.get(key),
+    put: async (key: string, value: unknown) => void values.set(key, value),
+    deleteAll: async () => values.clear(),
+    getAlarm: async () => alarm,
+    setAlarm: async (at: number) => void (alarm = at),
+  };
+  return new RateLimiter({ storage } as unknown as DurableObjectState, {} as Env);
+}
+
+// One RateLimiter per name, as the binding would address them
+function rateLimiters(): Env['RATE_LIMITER'] {
+  const limiters = new Map<string, InstanceType<typeof RateLimiter>>();
+  const namespace = {
+    idFromName: (name: string) => name,
+    get(name: string) {
+      if (!limiters.has(name)) {
+        limiters.set(name, rateLimiter());
+      }
+      return limiters.get(name);
+    },
+  };
+  return namespace as unknown as Env['RATE_LIMITER'];
+}
+
+function launchRequest(ip: string): Request {
+  return new Request('https://cloudx.sh/github.com/octocat/hello-world', { headers: { 'CF-Connecting-IP': ip } });
+}
+
+let env: Env;
+beforeEach(() => {
+  setSystemTime(new Date('2026-01-01T10:15:00Z'));
+  env = testEnv({ RATE_LIMITER: rateLimiters(), LAUNCHES_PER_IP_PER_HOUR: '2', DAILY_LAUNCH_BUDGET: '3' });
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('checkLaunchLimits', () => {
+  test('refuse launches from one network at the limit until the window rolls over', async () => {
+    expect(await checkLaunchLimits(env, launchRequest('192.0.2.1'), 'github:1')).toBeNull();
+    expect(await checkLaunchLimits(env, launchRequest('192.0.2.1'), 'github:2')).toBeNull();
+
+    const limit = await checkLaunchLimits(env, launchRequest('192.0.2.1'), 'github:3');
+    expect(limit).toEqual({ message: 'Too many launches from your network. Try again in 45 minutes.', retryAfter: 45 * 60 });
+
+    setSystemTime(new Date('2026-01-01T11:00:00Z'));
+    expect(await checkLaunchLimits(env, launchRequest('192.0.2.1'), 'github:3')).toBeNull();
+  });
+
+  test('refuse every launch once the daily budget is spent, until the next UTC day', async () => {
+    for (const ip of ['192.0.2.1', '192.0.2.2', '192.0.2.3']) {
+      expect(await checkLaunchLimits(env, launchRequest(ip), `github:${ip}`)).toBeNull();
+    }
+    const limit = await checkLaunchLimits(env, launchRequest('192.0.2.4'), 'github:4');
+    expect(limit?.message).toBe('cloudx.sh has used up its launch budget for today. Try again in 14 hours.');
+
+    // The budget is per UTC day, not a rolling 24 hours
+    setSystemTime(new Date('2026-01-01T23:59:59Z'));
+    expect(await checkLaunchLimits(env, launchRequest('192.0.2.4'), 'github:4')).not.toBeNull();
+    setSystemTime(new Date('2026-01-02T00:00:00Z'));
+    expect(await checkLaunchLimits(env, launchRequest('192.0.2.4'), 'github:4')).toBeNull();
+  });
+
+  test('count nothing for a denied launch', async () => {
+    await checkLaunchLimits(env, launchRequest('192.0.2.1'), 'github:1');
+    await checkLaunchLimits(env, launchRequest('192.0.2.1'), 'github:1');
+    // Denied by the network limit, so the budget and the visitor's count are untouched
+    expect(await checkLaunchLimits(env, launchRequest('192.0.2.1'), 'github:2')).not.toBeNull();
+    expect(await checkLaunchLimits(env, launchRequest('192.0.2.2'), 'github:2')).toBeNull();
+    expect((await checkLaunchLimits(env, launchRequest('192.0.2.3'), 'github:3'))?.message).toStartWith('cloudx.sh has used up');
+  });
+});
+
+describe('RateLimiter', () => {
+  test('allow hits up to the limit within a window', async () => {
+    const limiter = rateLimiter();
+    expect(await limiter.hit(2, HOUR_MS)).toEqual({ allowed: true, retryAfter: 0 });
+    expect(await limiter.check(2, HOUR_MS)).toEqual({ allowed: true, retryAfter: 0 });
+    expect(await limiter.hit(2, HOUR_MS)).toEqual({ allowed: true, retryAfter: 0 });
+    expect(await limiter.hit(2, HOUR_MS)).toEqual({ allowed: false, retryAfter: 45 * 60 });
+    expect(await limiter.check(2, HOUR_MS)).toEqual({ allowed: false, retryAfter: 45 * 60 });
+  });
+
+  test('give back a hit that was taken back', async () => {
+    const limiter = rateLimiter();
+    await limiter.hit(1, HOUR_MS);
+    await limiter.undo(HOUR_MS);
+    expect(await limiter.hit(1, HOUR_MS)).toEqual({ allowed: true, retryAfter: 0 });
+  });
+});
@@ -0,0 +1,115 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_REPO_CONFIG, loadRepoConfig, validateRepoConfig } from '../src/repo-config';
+
+// A sandbox whose repository holds one file
+function sandboxWith(name: string, content: string): Sandbox {
+  const sandbox = {
+    async readFile(path: string) {
+      if (path !== `/workspace/${name}`) {
+        throw new Error(`No such file: ${path}`);
+      }
+      return { content };
+    },
+  };
+  return sandbox as unknown as Sandbox;
+}
+
+function load(name: string, content: string) {
+  return loadRepoConfig(sandboxWith(name, content), '/workspace', new Set([name]));
+}
+
+describe('validateRepoConfig', () => {
+  test('accepts every known key', () => {
+    const raw = {
+      setup: ['npm run build'],
+      env: ['DATABASE_URL'],
+      ports: [5173, { port: 8080, label: 'API' }],
+      model: 'anthropic/claude-opus-4-5',
+      agent: 'opencode' as const,
+      submodules: true,
+      depth: 0,
+    };
+    expect(validateRepoConfig(raw)).toEqual({ config: { ...raw, ports: [{ port: 5173 }, { port: 8080, label: 'API' }] }, errors: [] });
+  });
+
+  test('reports each invalid value', () => {
+    const { config, errors } = validateRepoConfig({
+      setup: 'npm run build',
+      env: ['database-url'],
+      ports: [80],
+      agent: 'vim',
+      submodules: 'yes',
+      depth: -1,
+    });
+    expect(config).toEqual(DEFAULT_REPO_CONFIG);
+    expect(errors).toEqual([
+      '"setup" must be a list of non-empty commands',
+      '"env" must be a list of variable names such as DATABASE_URL',
+      '"ports" must be a list of port numbers (1024-65535) or { port, label } objects',
+      '"agent" must be one of: opencode, claude-code',
+      '"submodules" must be true or false',
+      '"depth" must be a non-negative integer (0 for the full history)',
+    ]);
+  });
+
+  test('refuses ports cloudx.sh listens on itself', () => {
+    expect(validateRepoConfig({ ports: [3000] }).errors).toEqual(['"ports" cannot include 3000, it is reserved for the sandbox control plane']);
+  });
+
+  test('ignores the whole file when a key is unknown', () => {
+    const { config, errors } = validateRepoConfig({ setup: ['make'], ports: [5173], startup: 'make dev' });
+    expect(config).toEqual(DEFAULT_REPO_CONFIG);
+    expect(errors).toEqual(['Unknown key "startup"']);
+  });
+
+  test('requires an object', () => {
+    expect(validateRepoConfig(['make']).errors).toEqual(['Configuration must be an object']);
+    expect(validateRepoConfig(null).errors).toEqual(['Configuration must be an object']);
+  });
+});
+
+describe('loadRepoConfig', () => {
+  test('uses the defaults when the repository has no configuration', async () => {
+    expect(await loadRepoConfig(sandboxWith('README.md', ''), '/workspace', new Set(['README.md']))).toEqual({
+      config: DEFAULT_REPO_CONFIG,
+      errors: [],
+    });
+  });
+
+  test('reads JSON', async () => {
+    const { config, file, errors } = await load('.cloudx.json', '{ "setup": ["make"], "ports": [5173] }');
+    expect(file).toBe('.cloudx.json');
+    expect(errors).toEqual([]);
+    expect(config).toEqual({ ...DEFAULT_REPO_CONFIG, setup: ['make'], ports: [{ port: 5173 }] });
+  });
+
+  test('reads YAML', async () => {
+    const { config, errors } = await load('.cloudx.yml', 'setup:\n  - make\nports:\n  - port: 5173\n    label: Vite\n');
+    expect(errors).toEqual([]);
+    expect(config).toEqual({ ...DEFAULT_REPO_CONFIG, setup: ['make'], ports: [{ port: 5173, label: 'Vite' }] });
+  });
+
+  test('reports invalid values and unknown keys in JSON, naming the file', async () => {
+    const { config, errors } = await load('.cloudx.json', '{ "depth": "full", "startup": "make dev" }');
+    expect(config).toEqual(DEFAULT_REPO_CONFIG);
+    expect(errors).toEqual([
+      '.cloudx.json: Unknown key "startup"',
+      '.cloudx.json: "depth" must be a non-negative integer (0 for the full history)',
+    ]);
+  });
+
+  test('reports invalid values and unknown keys in YAML, naming the file', async () => {
+    const { config, errors } = await load('.cloudx.yaml', 'depth: full\nstartup: make dev\n');
+    expect(config).toEqual(DEFAULT_REPO_CONFIG);
+    expect(errors).toEqual([
+      '.cloudx.yaml: Unknown key "startup"',
+      '.cloudx.yaml: "depth" must be a non-negative integer (0 for the full history)',
+    ]);
+  });
+
+  test('reports files that do not parse', async () => {
+    expect((await load('.cloudx.json', '{ "setup": [')).errors[0]).toStartWith('Failed to parse .cloudx.json: ');
+    expect((await load('.cloudx.yml', 'setup: [make')).errors[0]).toStartWith('Failed to parse .cloudx.yml: ');
+  });
+});
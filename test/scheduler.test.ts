@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { admissionOrder, planAdmission } from '../src/scheduler';
+import type { SessionInfo } from '../src/types';
+
+type Queued = Pick<SessionInfo, 'owner' | 'createdAt' | 'task'> & { id: string };
+
+function launch(id: string, owner: string, createdAt: number): Queued {
+  return { id, owner, createdAt };
+}
+
+function task(id: string, owner: string, createdAt: number): Queued {
+  return { id, owner, createdAt, task: {} };
+}
+
+const ids = (sessions: Queued[]) => sessions.map((info) => info.id);
+
+describe('admissionOrder', () => {
+  test('takes sessions in the order they were queued', () => {
+    const queued = [launch('b', 'octocat', 2), launch('a', 'hubot', 1), launch('c', 'monalisa', 3)];
+    expect(ids(admissionOrder(queued, new Map()))).toEqual(['a', 'b', 'c']);
+  });
+
+  test('puts interactive sessions ahead of tasks', () => {
+    const queued = [task('t1', 'octocat', 1), launch('l1', 'hubot', 2), task('t2', 'hubot', 3), launch('l2', 'octocat', 4)];
+    expect(ids(admissionOrder(queued, new Map()))).toEqual(['l1', 'l2', 't1', 't2']);
+  });
+
+  test('lets owners take turns instead of serving one batch first', () => {
+    const queued = [
+      launch('o1', 'octocat', 1),
+      launch('o2', 'octocat', 2),
+      launch('o3', 'octocat', 3),
+      launch('h1', 'hubot', 4),
+      launch('m1', 'monalisa', 5),
+    ];
+    expect(ids(admissionOrder(queued, new Map()))).toEqual(['o1', 'h1', 'm1', 'o2', 'o3']);
+  });
+
+  test('counts the slots owners already hold', () => {
+    const queued = [launch('o1', 'octocat', 1), launch('h1', 'hubot', 2), launch('h2', 'hubot', 3)];
+    expect(ids(admissionOrder(queued, new Map([['octocat', 2]])))).toEqual(['h1', 'h2', 'o1']);
+  });
+});
+
+describe('planAdmission', () => {
+  test('admits one session at a time with a capacity of 1', () => {
+    const queued = [launch('a', 'octocat', 1), launch('b', 'hubot', 2), task('t', 'monalisa', 3)];
+    const limits = { capacity: 1, perOwner: 1 };
+
+    const plan = planAdmission(queued, new Map(), 0, limits);
+    expect(ids(plan.admit)).toEqual(['a']);
+    expect(plan.waiting.map(({ info, position }) => [info.id, position])).toEqual([['b', 1], ['t', 2]]);
+
+    // Nothing is admitted while the slot is taken, by a session or a pooled sandbox
+    expect(planAdmission(queued.slice(1), new Map([['octocat', 1]]), 1, limits).admit).toEqual([]);
+    expect(planAdmission(queued.slice(1), new Map(), 1, limits).admit).toEqual([]);
+  });
+
+  test('fills the free slots in admission order', () => {
+    const queued = [task('t', 'hubot', 1), launch('o1', 'octocat', 2), launch('o2', 'octocat', 3), launch('h1', 'hubot', 4)];
+    const plan = planAdmission(queued, new Map(), 1, { capacity: 3, perOwner: 3 });
+    expect(ids(plan.admit)).toEqual(['o1', 'h1']);
+    expect(plan.waiting.map(({ info, position }) => [info.id, position])).toEqual([['o2', 1], ['t', 2]]);
+  });
+
+  test('skips owners at their limit without holding back the sessions behind them', () => {
+    const queued = [launch('o1', 'octocat', 1), launch('o2', 'octocat', 2), task('t', 'hubot', 3)];
+    const plan = planAdmission(queued, new Map([['octocat', 1]]), 1, { capacity: 4, perOwner: 2 });
+    expect(ids(plan.admit)).toEqual(['o1', 't']);
+    expect(plan.waiting.map(({ info, position }) => [info.id, position])).toEqual([['o2', 1]]);
+  });
+});
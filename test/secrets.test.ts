@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { MAX_SECRETS, deleteSecret, findMissingSecrets, listSecrets, putSecret, readSecrets } from '../src/secrets';
+import type { Env } from '../src/types';
+import { testEnv } from './helpers';
+
+const octocat = 'github:1';
+const hubot = 'github:2';
+
+let env: Env;
+beforeEach(() => {
+  env = testEnv({ SECRETS_KEY: btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32)))) });
+});
+
+describe('secrets', () => {
+  test('decrypt what was stored, without keeping the value in KV', async () => {
+    expect(await putSecret(env, octocat, 'NPM_TOKEN', 'npm_secret')).toBe(true);
+    expect(await readSecrets(env, octocat, ['NPM_TOKEN'])).toEqual({ NPM_TOKEN: 'npm_secret' });
+    expect(await env.CACHE.get(`secret:${octocat}:NPM_TOKEN`)).not.toContain('npm_secret');
+
+    const [listed] = await listSecrets(env, octocat);
+    expect(listed.name).toBe('NPM_TOKEN');
+    expect(listed.updatedAt).toBeGreaterThan(0);
+  });
+
+  test('replace a secret and delete it', async () => {
+    await putSecret(env, octocat, 'NPM_TOKEN', 'old');
+    await putSecret(env, octocat, 'NPM_TOKEN', 'new');
+    expect(await readSecrets(env, octocat, ['NPM_TOKEN'])).toEqual({ NPM_TOKEN: 'new' });
+    expect(await deleteSecret(env, octocat, 'NPM_TOKEN')).toBe(true);
+    expect(await deleteSecret(env, octocat, 'NPM_TOKEN')).toBe(false);
+    expect(await readSecrets(env, octocat, ['NPM_TOKEN'])).toEqual({});
+  });
+
+  test('keep owners apart', async () => {
+    await putSecret(env, octocat, 'NPM_TOKEN', 'npm_secret');
+    expect(await readSecrets(env, hubot, ['NPM_TOKEN'])).toEqual({});
+    expect(await findMissingSecrets(env, hubot, ['NPM_TOKEN'])).toEqual(['NPM_TOKEN']);
+    expect(await listSecrets(env, hubot)).toEqual([]);
+  });
+
+  test('refuse a ciphertext copied to another owner or name', async () => {
+    await putSecret(env, octocat, 'NPM_TOKEN', 'npm_secret');
+    const sealed = (await env.CACHE.get(`secret:${octocat}:NPM_TOKEN`))!;
+    await env.CACHE.put(`secret:${hubot}:NPM_TOKEN`, sealed);
+    await env.CACHE.put(`secret:${octocat}:OTHER`, sealed);
+    await expect(readSecrets(env, hubot, ['NPM_TOKEN'])).rejects.toThrow();
+    await expect(readSecrets(env, octocat, ['OTHER'])).rejects.toThrow();
+  });
+
+  test('refuse a tampered ciphertext', async () => {
+    await putSecret(env, octocat, 'NPM_TOKEN', 'npm_secret');
+    const key = `secret:${octocat}:NPM_TOKEN`;
+    const sealed = Uint8Array.from(atob((await env.CACHE.get(key))!), (char) => char.charCodeAt(0));
+    sealed[sealed.length - 1] ^= 1;
+    await env.CACHE.put(key, btoa(String.fromCharCode(...sealed)));
+    await expect(readSecrets(env, octocat, ['NPM_TOKEN'])).rejects.toThrow();
+  });
+
+  test(`refuse new secrets beyond ${MAX_SECRETS}, but still replace existing ones`, async () => {
+    for (let i = 0; i < MAX_SECRETS; i++) {
+      expect(await putSecret(env, octocat, `SECRET_${i}`, 'value')).toBe(true);
+    }
+    expect(await putSecret(env, octocat, 'ONE_TOO_MANY', 'value')).toBe(false);
+    expect(await putSecret(env, octocat, 'SECRET_0', 'replaced')).toBe(true);
+    expect(await putSecret(env, hubot, 'NPM_TOKEN', 'value')).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { detectSetupSteps } from '../src/setup';
+
+function stepNames(...files: string[]): string[] {
+  return detectSetupSteps(new Set(files)).map((step) => step.name);
+}
+
+describe('detectSetupSteps', () => {
+  test('picks one JavaScript package manager by lockfile, bun first', () => {
+    const lockfiles = ['bun.lock', 'pnpm-lock.yaml', 'yarn.lock', 'package-lock.json'];
+    expect(stepNames('package.json', ...lockfiles)).toEqual(['bun']);
+    expect(stepNames('package.json', 'bun.lockb', 'package-lock.json')).toEqual(['bun']);
+    expect(stepNames('package.json', ...lockfiles.slice(1))).toEqual(['pnpm']);
+    expect(stepNames('package.json', ...lockfiles.slice(2))).toEqual(['yarn']);
+    expect(stepNames('package.json', ...lockfiles.slice(3))).toEqual(['npm']);
+  });
+
+  test('installs from the lockfile when there is one', () => {
+    expect(detectSetupSteps(new Set(['package.json', 'package-lock.json']))).toEqual([{ name: 'npm', command: 'npm ci' }]);
+    expect(detectSetupSteps(new Set(['package.json']))).toEqual([{ name: 'npm', command: 'npm install' }]);
+  });
+
+  test('ignores lockfiles without a package.json', () => {
+    expect(stepNames('yarn.lock', 'bun.lock')).toEqual([]);
+  });
+
+  test('picks one Python installer, uv before poetry before pip', () => {
+    expect(stepNames('pyproject.toml', 'uv.lock', 'poetry.lock', 'requirements.txt')).toEqual(['uv']);
+    expect(stepNames('pyproject.toml', 'poetry.lock', 'requirements.txt')).toEqual(['poetry']);
+    expect(detectSetupSteps(new Set(['pyproject.toml', 'requirements.txt']))).toEqual([{ name: 'pip', command: 'pip install -e .' }]);
+    expect(detectSetupSteps(new Set(['requirements.txt']))).toEqual([{ name: 'pip', command: 'pip install -r requirements.txt' }]);
+  });
+
+  test('installs runtimes before the toolchains that need them', () => {
+    expect(stepNames('composer.json', 'Gemfile', 'requirements.txt', 'Cargo.toml', 'go.mod', 'package.json', '.tool-versions')).toEqual([
+      'mise',
+      'npm',
+      'go',
+      'cargo',
+      'pip',
+      'bundler',
+      'composer',
+    ]);
+  });
+});